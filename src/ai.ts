@@ -1,9 +1,50 @@
-import { generateObject, generateText } from "ai";
+import { generateObject, generateText, type LanguageModel } from "ai";
 import { createOpenAI } from "@ai-sdk/openai";
 import type { DockerStackFile } from "src/github";
 import type DockerToObsiPlugin from "src/main";
+import { hashString } from "src/utils";
 import { z } from "zod";
 
+export type AIProviderType = "openai" | "openai-compatible" | "ollama";
+
+export const AI_PROVIDERS: Record<
+	AIProviderType,
+	{ name: string; baseUrl: string; model: string }
+> = {
+	openai: {
+		name: "OpenAI",
+		baseUrl: "https://api.openai.com/v1",
+		model: "gpt-4.1-mini",
+	},
+	"openai-compatible": {
+		name: "OpenAI-compatible endpoint",
+		baseUrl: "",
+		model: "",
+	},
+	ollama: {
+		name: "Ollama",
+		baseUrl: "http://localhost:11434/v1",
+		model: "llama3.1",
+	},
+};
+
+/**
+ * What the AI generates for a stack note.
+ */
+export type StackInsights = {
+	description: string;
+	tags: string[];
+	category: string;
+};
+
+export const DEFAULT_AI_SYSTEM_PROMPT = `You are a technical documentation expert, you're used to Homelab infrastructure and you are a Developer. You'll be given a Docker stack used in a Homelab: its name and the services and images of its compose file. Identify the application it runs and give:
+- a pragmatic, objective, short description of the application, between 20-50 words,
+- 1 to 3 relevant tags, single lowercase words of 1-20 characters,
+- a single lowercase category describing its purpose, e.g. media, monitoring, networking, security, storage, development, home-automation or productivity.`;
+
+/** Enough for the description, tags and category, with room for the JSON around them. */
+const INSIGHTS_MAX_TOKENS = 300;
+
 export default class AIService {
 	private readonly plugin: DockerToObsiPlugin;
 
@@ -12,87 +53,138 @@ export default class AIService {
 	}
 
 	/**
-	 * Generates a description for a Docker stack based on its compose file content.
+	 * Creates the language model of the configured provider, falling back to the defaults of the
+	 * provider for empty base URL and model. Throws when the provider is not fully configured.
 	 */
-	async generateStackDescription(stack: DockerStackFile): Promise<string> {
-		try {
-			const apiKey = this.plugin.settings.openaiApiKey?.trim();
-			if (!apiKey) {
-				console.warn(
-					"OpenAI API key not configured, using placeholder description",
-				);
-				return "Write description here";
-			}
-
-			const client = createOpenAI({ apiKey });
-
-			const { text } = await generateText({
-				model: client("gpt-4.1-mini"),
-				messages: [
-					{
-						role: "system",
-						content:
-							"You are a technical documentation expert, you're used to Homelab infrastructure and you are a Developer. You'll will have to give a pragmatic, objective, short description of a tool or application used in a Homelab based on the name given to you. Keep descriptions between 20-50 words.",
-					},
-					{
-						role: "user",
-						content: `Give a short description of "${stack.name}"`,
-					},
-				],
-				temperature: 0.3,
-				maxTokens: 200,
-			});
+	private getModel(): LanguageModel {
+		const { aiProvider, aiBaseUrl, aiModel, aiApiKey } = this.plugin.settings;
+		const defaults = AI_PROVIDERS[aiProvider];
+		const baseURL = aiBaseUrl.trim().replace(/\/+$/, "") || defaults.baseUrl;
+		const model = aiModel.trim() || defaults.model;
+		const apiKey = aiApiKey.trim();
 
-			return text.trim();
-		} catch (error) {
-			console.error(
-				`Failed to generate AI description for stack ${stack.name}:`,
-				error,
-			);
-			return "Write description here";
+		if (!baseURL) {
+			throw new Error(`Base URL is required for ${defaults.name}`);
+		}
+		if (!model) {
+			throw new Error(`Model is required for ${defaults.name}`);
+		}
+		if (aiProvider === "openai" && !apiKey) {
+			throw new Error("OpenAI API key not configured");
 		}
+
+		const client = createOpenAI({
+			baseURL,
+			// Local servers ignore the key, but the client refuses to send requests without one
+			apiKey: apiKey || aiProvider,
+			compatibility: aiProvider === "openai" ? "strict" : "compatible",
+		});
+		return client(model);
 	}
 
 	/**
-	 * Generates tags for a Docker stack based on its compose file content.
+	 * Sends a minimal request to the configured provider and returns its answer.
+	 * Throws when the provider is unreachable or misconfigured.
 	 */
-	async generateStackTags(stack: DockerStackFile): Promise<string[]> {
-		try {
-			const apiKey = this.plugin.settings.openaiApiKey?.trim();
-			if (!apiKey) {
-				console.warn("OpenAI API key not configured, using default tags");
-				return [];
-			}
+	async testConnection(): Promise<string> {
+		const { text } = await generateText({
+			model: this.getModel(),
+			prompt: "Reply with OK.",
+			temperature: this.plugin.settings.aiTemperature,
+			maxTokens: 10,
+		});
+		return text.trim();
+	}
+
+	/**
+	 * Generates a description, tags and a category for a Docker stack in a single call, based on
+	 * the services and images of its compose files. Secrets are redacted before the stack gets
+	 * here. Results are cached by generation settings and prompt so notes can be recreated for
+	 * free. Returns null when generation fails.
+	 */
+	async generateStackInsights(
+		stack: DockerStackFile,
+	): Promise<StackInsights | null> {
+		const request = this.getInsightsRequest(stack);
+		const cacheKey = this.getCacheKey(stack);
 
-			const client = createOpenAI({ apiKey });
+		const cached = this.plugin.cache.aiInsights[cacheKey];
+		if (cached) {
+			return cached;
+		}
 
+		try {
 			const { object } = await generateObject({
-				model: client("gpt-4.1-mini"),
+				model: this.getModel(),
 				schema: z.object({
+					description: z.string().min(1),
 					tags: z.array(z.string().min(1).max(20)).min(1).max(3),
+					category: z.string().min(1).max(30),
 				}),
-				messages: [
-					{
-						role: "system",
-						content:
-							"You are a technical documentation expert, you're used to Homelab infrastructure and you are a Developer. You'll be given a name of an application or a tool used in a Homelab, based on it you will have to suggest relevant tags. Keep tags short, single word, give only tags list and nothing else in one line and separate each by a coma. A tag is between 1-20 characters, use lowercase letters only. Given 1 to 3 tags.",
-					},
-					{
-						role: "user",
-						content: `Suggest tags for "${stack.name}"`,
-					},
-				],
-				temperature: 0.3,
-				maxTokens: 100,
+				...request,
 			});
 
-			return object.tags;
+			const insights: StackInsights = {
+				description: object.description.trim(),
+				tags: object.tags.map((tag) => tag.trim().toLowerCase()),
+				category: object.category.trim().toLowerCase(),
+			};
+			this.plugin.cache.aiInsights[cacheKey] = insights;
+			await this.plugin.saveCache();
+			return insights;
 		} catch (error) {
 			console.error(
-				`Failed to generate AI tags for stack ${stack.name}:`,
+				`Failed to generate AI insights for stack ${stack.name}:`,
 				error,
 			);
-			return [];
+			return null;
 		}
 	}
+
+	/**
+	 * Returns the key the insights of the stack are cached under with the current settings:
+	 * provider, base URL and model with their defaults applied, and every option of the request.
+	 */
+	getCacheKey(stack: DockerStackFile): string {
+		const { aiProvider, aiBaseUrl, aiModel } = this.plugin.settings;
+		const defaults = AI_PROVIDERS[aiProvider];
+		return hashString(
+			JSON.stringify([
+				aiProvider,
+				aiBaseUrl.trim().replace(/\/+$/, "") || defaults.baseUrl,
+				aiModel.trim() || defaults.model,
+				this.getInsightsRequest(stack),
+			]),
+		);
+	}
+
+	/**
+	 * Returns the options of the insights request besides model and schema.
+	 */
+	private getInsightsRequest(stack: DockerStackFile) {
+		return {
+			system:
+				this.plugin.settings.aiSystemPrompt.trim() || DEFAULT_AI_SYSTEM_PROMPT,
+			prompt: this.getStackPrompt(stack),
+			temperature: this.plugin.settings.aiTemperature,
+			maxTokens: INSIGHTS_MAX_TOKENS,
+		};
+	}
+
+	/**
+	 * Describes the stack by its name, services and images. Only the parsed model is used so
+	 * environment values and other settings never reach the provider.
+	 */
+	private getStackPrompt(stack: DockerStackFile): string {
+		const services = stack.compose?.services ?? [];
+		const lines = services.map(
+			(service) =>
+				`- ${service.name}: ${service.image ? `image ${service.image}` : "built from source"}`,
+		);
+
+		return [
+			`Stack name: ${stack.name}`,
+			lines.length > 0 ? `Services:\n${lines.join("\n")}` : "Services: unknown",
+		].join("\n");
+	}
 }
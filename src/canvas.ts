@@ -0,0 +1,319 @@
+import { TFile } from "obsidian";
+import type {
+	AllCanvasNodeData,
+	CanvasData,
+	CanvasEdgeData,
+} from "obsidian/canvas";
+import type { DockerStackFile } from "src/github";
+import type DockerToObsiPlugin from "src/main";
+import {
+	hasManagedRegion,
+	replaceManagedRegion,
+	wrapManagedRegion,
+} from "src/markdown";
+import type { StackNote } from "src/obsidian";
+import { hashString } from "src/utils";
+
+export type SharedResourceKind = "network" | "volume";
+
+/**
+ * A network or volume several stacks use, e.g. a `proxy` network all web apps join.
+ */
+export type SharedResource = {
+	kind: SharedResourceKind;
+	name: string;
+	stacks: DockerStackFile[];
+};
+
+/** Prefix of the ids of generated canvas nodes and edges, other ones are left as is. */
+const ID_PREFIX = "docker-to-obsi";
+
+const NOTE_NODE_SIZE = { width: 400, height: 200 };
+const RESOURCE_NODE_SIZE = { width: 250, height: 60 };
+const NODE_GAP = 80;
+
+// Canvas preset colors: 5 is cyan, 4 is green
+const RESOURCE_COLORS: Record<SharedResourceKind, string> = {
+	network: "5",
+	volume: "4",
+};
+
+/**
+ * Finds the networks and volumes declared by at least two stacks and external in at least
+ * one of them. Other resources are prefixed with the project name by Docker, so stacks
+ * declaring the same name do not actually share them.
+ */
+export function findSharedResources(
+	stacks: DockerStackFile[],
+): SharedResource[] {
+	const resources = new Map<string, SharedResource & { external: boolean }>();
+
+	for (const stack of stacks) {
+		const declared = [
+			...(stack.compose?.networks ?? []).map((resource) => ({
+				kind: "network" as const,
+				resource,
+			})),
+			...(stack.compose?.volumes ?? []).map((resource) => ({
+				kind: "volume" as const,
+				resource,
+			})),
+		];
+
+		for (const { kind, resource } of declared) {
+			const key = `${kind}:${resource.name}`;
+			const shared = resources.get(key) ?? {
+				kind,
+				name: resource.name,
+				stacks: [],
+				external: false,
+			};
+			if (!shared.stacks.includes(stack)) {
+				shared.stacks.push(stack);
+			}
+			shared.external = shared.external || resource.external;
+			resources.set(key, shared);
+		}
+	}
+
+	return Array.from(resources.values())
+		.filter((resource) => resource.external && resource.stacks.length > 1)
+		.map(({ kind, name, stacks }) => ({ kind, name, stacks }))
+		.sort(
+			(a, b) => a.kind.localeCompare(b.kind) || a.name.localeCompare(b.name),
+		);
+}
+
+function getId(type: string, key: string): string {
+	return `${ID_PREFIX}-${type}-${hashString(key).slice(0, 12)}`;
+}
+
+/**
+ * Exports the shared networks and volumes of stacks as an Obsidian Canvas, and links notes of
+ * stacks sharing a network.
+ */
+export default class CanvasService {
+	private readonly plugin: DockerToObsiPlugin;
+
+	constructor(plugin: DockerToObsiPlugin) {
+		this.plugin = plugin;
+	}
+
+	/**
+	 * Creates or updates the canvas with one node per stack note, keyed by its path, and per
+	 * shared resource, linked by edges. Generated nodes that already exist keep their position
+	 * and size, also when Obsidian updated the path of a renamed note. New ones are placed
+	 * below the existing nodes. Nodes and edges added by hand are kept.
+	 */
+	async exportCanvas(
+		stackNotes: StackNote[],
+		resources: SharedResource[],
+	): Promise<TFile> {
+		const path = this.plugin.settings.canvasFilePath.trim();
+		if (!path.endsWith(".canvas")) {
+			throw new Error(`Canvas file path must end with .canvas: ${path}`);
+		}
+
+		const existingFile = this.plugin.app.vault.getAbstractFileByPath(path);
+		const canvas: CanvasData =
+			existingFile instanceof TFile
+				? this.parseCanvas(await this.plugin.app.vault.read(existingFile))
+				: { nodes: [], edges: [] };
+		const existingNodes = new Map(canvas.nodes.map((node) => [node.id, node]));
+		const existingFileNodes = new Map<string, AllCanvasNodeData>();
+		for (const node of canvas.nodes) {
+			if (node.type === "file" && node.id.startsWith(`${ID_PREFIX}-`)) {
+				existingFileNodes.set(node.file, node);
+			}
+		}
+
+		// A stack may have several notes, e.g. before a duplicate is archived
+		const noteIds = new Map<DockerStackFile, string[]>();
+		const nodes: AllCanvasNodeData[] = [];
+		const newNodes: AllCanvasNodeData[] = [];
+		const addNode = (node: AllCanvasNodeData) => {
+			const existing =
+				existingNodes.get(node.id) ??
+				(node.type === "file" ? existingFileNodes.get(node.file) : undefined);
+			if (existing) {
+				nodes.push({
+					...node,
+					x: existing.x,
+					y: existing.y,
+					width: existing.width,
+					height: existing.height,
+				});
+			} else {
+				nodes.push(node);
+				newNodes.push(node);
+			}
+		};
+
+		for (const { file, stack } of stackNotes) {
+			const id = getId("note", file.path);
+			noteIds.set(stack, (noteIds.get(stack) ?? []).concat(id));
+			addNode({
+				id,
+				type: "file",
+				file: file.path,
+				x: 0,
+				y: 0,
+				...NOTE_NODE_SIZE,
+			});
+		}
+
+		const edges: CanvasEdgeData[] = [];
+		for (const resource of resources) {
+			const resourceId = getId(resource.kind, resource.name);
+			addNode({
+				id: resourceId,
+				type: "text",
+				text: `**${resource.name}**\n${resource.kind}`,
+				color: RESOURCE_COLORS[resource.kind],
+				x: 0,
+				y: 0,
+				...RESOURCE_NODE_SIZE,
+			});
+
+			for (const stack of resource.stacks) {
+				for (const noteId of noteIds.get(stack) ?? []) {
+					edges.push({
+						id: getId("edge", `${noteId}:${resourceId}`),
+						fromNode: noteId,
+						toNode: resourceId,
+						toEnd: "none",
+					});
+				}
+			}
+		}
+
+		this.placeNewNodes(
+			newNodes,
+			canvas.nodes.filter((node) => existingNodes.has(node.id)),
+		);
+
+		const generatedIds = new Set(nodes.map((node) => node.id));
+		const manualNodes = canvas.nodes.filter(
+			(node) => !node.id.startsWith(`${ID_PREFIX}-`),
+		);
+		const nodeIds = new Set([
+			...Array.from(generatedIds),
+			...manualNodes.map((node) => node.id),
+		]);
+		const manualEdges = canvas.edges.filter(
+			(edge) =>
+				!edge.id.startsWith(`${ID_PREFIX}-`) &&
+				nodeIds.has(edge.fromNode) &&
+				nodeIds.has(edge.toNode),
+		);
+
+		const content = JSON.stringify(
+			{
+				...canvas,
+				nodes: [...manualNodes, ...nodes],
+				edges: [...manualEdges, ...edges],
+			},
+			null,
+			"\t",
+		);
+
+		if (existingFile instanceof TFile) {
+			await this.plugin.app.vault.modify(existingFile, content);
+			return existingFile;
+		}
+		return await this.plugin.app.vault.create(path, content);
+	}
+
+	private parseCanvas(content: string): CanvasData {
+		if (!content.trim()) {
+			return { nodes: [], edges: [] };
+		}
+		const data = JSON.parse(content) as Partial<CanvasData>;
+		return { ...data, nodes: data.nodes ?? [], edges: data.edges ?? [] };
+	}
+
+	/**
+	 * Lays new notes out in a row and new resources in a row below them, under the nodes
+	 * already on the canvas.
+	 */
+	private placeNewNodes(
+		newNodes: AllCanvasNodeData[],
+		existingNodes: AllCanvasNodeData[],
+	) {
+		let top = existingNodes.reduce(
+			(bottom, node) => Math.max(bottom, node.y + node.height + NODE_GAP),
+			0,
+		);
+
+		for (const type of ["file", "text"]) {
+			const row = newNodes.filter((node) => node.type === type);
+			if (row.length === 0) {
+				continue;
+			}
+
+			let left = 0;
+			for (const node of row) {
+				node.x = left;
+				node.y = top;
+				left += node.width + NODE_GAP;
+			}
+			top += Math.max(...row.map((node) => node.height)) + NODE_GAP * 2;
+		}
+	}
+
+	/**
+	 * Writes wikilinks to the notes of stacks sharing a network into the "related" managed
+	 * region of each note, added at the end of notes without it. Returns the number of notes
+	 * changed.
+	 */
+	async linkNotesBySharedNetworks(
+		stackNotes: StackNote[],
+		resources: SharedResource[],
+	): Promise<number> {
+		const { metadataCache, vault } = this.plugin.app;
+		const notesByStack = new Map(
+			stackNotes.map((note) => [note.stack, note.file]),
+		);
+		let changedCount = 0;
+
+		for (const { file, stack } of stackNotes) {
+			const lines = resources
+				.filter(
+					(resource) =>
+						resource.kind === "network" && resource.stacks.includes(stack),
+				)
+				.map((resource) => {
+					const links = resource.stacks
+						.filter((other) => other !== stack && notesByStack.has(other))
+						.map((other) => {
+							const otherFile = notesByStack.get(other) as TFile;
+							return `[[${metadataCache.fileToLinktext(otherFile, file.path, true)}]]`;
+						});
+					return links.length > 0
+						? `- Network \`${resource.name}\`: ${links.join(", ")}`
+						: null;
+				})
+				.filter((line): line is string => line !== null);
+
+			try {
+				const content = await vault.read(file);
+				if (lines.length === 0 && !hasManagedRegion(content, "related")) {
+					continue;
+				}
+
+				const related = lines.join("\n") || "_No shared networks._";
+				const newContent = hasManagedRegion(content, "related")
+					? replaceManagedRegion(content, "related", related)
+					: `${content.trimEnd()}\n\n${wrapManagedRegion("related", related)}\n`;
+				if (newContent !== content) {
+					await vault.modify(file, newContent);
+					changedCount++;
+				}
+			} catch (error) {
+				console.error(`Failed to link related notes in ${file.path}:`, error);
+			}
+		}
+
+		return changedCount;
+	}
+}
@@ -1,48 +1,286 @@
 import { Notice } from "obsidian";
-import GithubService from "src/github";
+import GithubService, {
+	type DockerStackFile,
+	findDuplicateStacks,
+	getSourceLabel,
+	type SourceFetchError,
+	type StackFetchResult,
+} from "src/github";
+import CanvasService, { findSharedResources } from "src/canvas";
+import AuditService, { lintStacks } from "src/lint";
 import type DockerToObsiPlugin from "src/main";
-import { StackSelectionModal } from "src/modal";
-import ObsidianService from "src/obsidian";
+import {
+	OrphanedNotesModal,
+	ProposeChangesModal,
+	RegenerateInsightsModal,
+	RenameSuggestionsModal,
+	StackSelectionModal,
+	UpdateReviewModal,
+} from "src/modal";
+import ObsidianService, {
+	type InsightTarget,
+	type InsightUpdate,
+	type StackNote,
+	type SyncPlan,
+	type SyncResult,
+} from "src/obsidian";
+import { LeftoverBranchError } from "src/providers/provider";
+import { compileRedactionRules } from "src/redact";
 
 export default class CommandManager {
 	private readonly plugin: DockerToObsiPlugin;
 	private readonly githubService: GithubService;
 	private readonly obsidianService: ObsidianService;
+	private readonly canvasService: CanvasService;
+	private readonly auditService: AuditService;
+	/** Whether a sync is running, to avoid overlapping manual and scheduled runs. */
+	private isSyncing = false;
 
 	constructor(plugin: DockerToObsiPlugin) {
 		this.plugin = plugin;
 		this.githubService = new GithubService(plugin);
 		this.obsidianService = new ObsidianService(plugin);
+		this.canvasService = new CanvasService(plugin);
+		this.auditService = new AuditService(plugin);
 	}
 
 	async dockerToObsiCommand() {
+		if (this.isSyncing) {
+			new Notice("A Docker stack sync is already running.");
+			return;
+		}
+		this.isSyncing = true;
+
 		const statusBarItemEl = this.plugin.addStatusBarItem();
 		statusBarItemEl.setText("Fetching docker stacks...");
 
 		try {
-			const stacks = await this.githubService.fetchAllComposeStackFiles();
+			const { stacks } = await this.fetchStacks();
 			if (stacks.length === 0) {
 				new Notice("No Docker stacks found.");
 				return;
 			}
 
 			new Notice(`Found ${stacks.length} Docker stacks.`);
-			statusBarItemEl.setText("Updating docker stacks in obsidian files...");
+			this.reportDuplicateStacks(stacks);
+			this.reportParseErrors(stacks);
+			this.reportRedactions(stacks);
+			if (this.plugin.settings.auditOnSync) {
+				statusBarItemEl.setText("Auditing docker stacks...");
+				await this.writeAuditReport(stacks);
+			}
+
+			await this.syncStacks(stacks, statusBarItemEl, async () => {
+				await this.plugin.setLastSyncTime(Date.now());
+				await this.plugin.refreshDashboards(stacks);
+			});
+		} catch (err) {
+			console.error("Error fetching Docker stacks:", err);
+			new Notice("Failed to fetch Docker stacks. Check console for details.");
+		} finally {
+			this.isSyncing = false;
+			statusBarItemEl.remove();
+		}
+	}
+
+	/**
+	 * Fetches the stacks of every source. Sources that could not be fetched are reported and
+	 * left out, so the stacks of the other sources are still synced.
+	 */
+	private async fetchStacks(): Promise<StackFetchResult> {
+		const result = await this.githubService.fetchAllComposeStackFiles();
+		this.reportFailedSources(result.failedSources);
+		return result;
+	}
 
-			const updatedCount =
+	/**
+	 * Syncs the notes of the given stacks, letting the changes be reviewed first when enabled.
+	 * `onApplied` runs once the updates are written. Resolves once the review modal is applied
+	 * or closed.
+	 */
+	private async syncStacks(
+		stacks: DockerStackFile[],
+		statusBarItemEl: HTMLElement,
+		onApplied: () => Promise<void>,
+	) {
+		if (!this.plugin.settings.reviewChanges) {
+			statusBarItemEl.setText("Updating docker stacks in obsidian files...");
+			const result =
 				await this.obsidianService.checkNotesForMatchingStacks(stacks);
+			await onApplied();
+			this.notifySyncResult(result);
+			return;
+		}
+
+		statusBarItemEl.setText("Checking notes for changes...");
+		const plan = await this.obsidianService.planNoteUpdates(stacks);
+		const { changedUpdates, unchangedUpdates } = this.splitNoteUpdates(plan);
+
+		if (changedUpdates.length === 0) {
+			const result =
+				await this.obsidianService.applyNoteUpdates(unchangedUpdates);
+			await onApplied();
+			this.notifySyncResult(result, plan);
+			return;
+		}
+
+		statusBarItemEl.setText("Reviewing docker stack updates...");
+		// Resolved once the review is applied or cancelled, so the sync stays locked until then
+		await new Promise<void>((resolve) => {
+			new UpdateReviewModal(
+				this.plugin.app,
+				changedUpdates,
+				async (selectedUpdates) => {
+					try {
+						const result = await this.obsidianService.applyNoteUpdates([
+							...selectedUpdates,
+							...unchangedUpdates,
+						]);
+						await onApplied();
+						this.notifySyncResult(
+							result,
+							plan,
+							changedUpdates.length - selectedUpdates.length,
+						);
+					} catch (err) {
+						console.error("Error updating Docker notes:", err);
+						new Notice(
+							"Failed to update Docker notes. Check console for details.",
+						);
+					} finally {
+						resolve();
+					}
+				},
+				{ onCancel: resolve },
+			).open();
+		});
+	}
+
+	/**
+	 * Splits planned updates into notes whose body changes and notes with an up to date body,
+	 * which may still get their frontmatter refreshed.
+	 */
+	private splitNoteUpdates(plan: SyncPlan) {
+		return {
+			changedUpdates: plan.updates.filter(
+				(update) => update.newContent !== update.oldContent,
+			),
+			unchangedUpdates: plan.updates.filter(
+				(update) => update.newContent === update.oldContent,
+			),
+		};
+	}
+
+	/**
+	 * Syncs the note of a single stack, e.g. from the dashboard.
+	 */
+	async syncStackCommand(stack: DockerStackFile) {
+		if (this.isSyncing) {
+			new Notice("A Docker stack sync is already running.");
+			return;
+		}
+		this.isSyncing = true;
+
+		const statusBarItemEl = this.plugin.addStatusBarItem();
+		try {
+			await this.syncStacks([stack], statusBarItemEl, async () => {
+				await this.plugin.refreshDashboards();
+			});
+		} catch (err) {
+			console.error(`Error syncing Docker stack ${stack.name}:`, err);
+			new Notice("Failed to sync Docker stack. Check console for details.");
+		} finally {
+			this.isSyncing = false;
+			statusBarItemEl.remove();
+		}
+	}
+
+	/**
+	 * Creates the note of a single stack from the template, e.g. from the dashboard.
+	 */
+	async createStackNoteCommand(stack: DockerStackFile) {
+		try {
+			const { createdCount, templateErrors } =
+				await this.obsidianService.createNotesFromTemplate([stack]);
+			this.reportTemplateErrors(templateErrors);
+			new Notice(
+				createdCount > 0
+					? `Created note for Docker stack ${stack.name}.`
+					: "Failed to create note. Check console for errors.",
+			);
+			await this.plugin.refreshDashboards();
+		} catch (err) {
+			console.error(`Error creating note of Docker stack ${stack.name}:`, err);
+			new Notice("Failed to create Docker note. Check console for details.");
+		}
+	}
+
+	/**
+	 * Fetches the stacks and shows their status in the open dashboards.
+	 */
+	async refreshDashboardCommand() {
+		try {
+			const { stacks } = await this.fetchStacks();
+			this.reportRedactions(stacks, false);
+			await this.plugin.refreshDashboards(stacks);
+		} catch (err) {
+			console.error("Error fetching Docker stacks:", err);
+			new Notice("Failed to fetch Docker stacks. Check console for details.");
+		}
+	}
+
+	/**
+	 * Syncs notes in the background, for syncs on startup and on an interval. When changes
+	 * are reviewed, notes whose body would change are left for the review of the next manual
+	 * sync and reported instead of being written. In quiet mode, a notice is only shown when
+	 * notes changed, failed or wait for review.
+	 */
+	async scheduledSyncCommand() {
+		// The running sync reports its own result and updates the last sync time
+		if (this.isSyncing) {
+			return;
+		}
+		this.isSyncing = true;
+
+		try {
+			const { stacks } = await this.fetchStacks();
+			this.reportRedactions(stacks, !this.plugin.settings.quietSync);
 
-			if (updatedCount > 0) {
+			let result: SyncResult;
+			let plan: SyncPlan | undefined;
+			let pendingCount = 0;
+			if (this.plugin.settings.reviewChanges) {
+				plan = await this.obsidianService.planNoteUpdates(stacks);
+				const { changedUpdates, unchangedUpdates } =
+					this.splitNoteUpdates(plan);
+				pendingCount = changedUpdates.length;
+				result = await this.obsidianService.applyNoteUpdates(unchangedUpdates);
+			} else {
+				result = await this.obsidianService.checkNotesForMatchingStacks(stacks);
+			}
+			await this.plugin.setLastSyncTime(Date.now());
+			await this.plugin.refreshDashboards(stacks);
+
+			if (
+				!this.plugin.settings.quietSync ||
+				result.changed > 0 ||
+				result.failed + (plan?.failed ?? 0) > 0 ||
+				pendingCount > 0
+			) {
+				this.notifySyncResult(result, plan, pendingCount);
+			}
+			if (pendingCount > 0) {
 				new Notice(
-					`Successfully updated ${updatedCount} note${updatedCount === 1 ? "" : "s"} with Docker stack content.`,
+					`${pendingCount} Docker stack note${pendingCount === 1 ? "" : "s"} changed and wait${pendingCount === 1 ? "s" : ""} for review. Run "Fetch docker stacks and save to Obsidian" to review the changes.`,
 				);
-			} else {
-				new Notice("No matching notes found to update.");
 			}
 		} catch (err) {
-			new Notice("Failed to fetch file content from GitHub.");
+			console.error("Error during scheduled Docker stack sync:", err);
+			new Notice(
+				"Scheduled Docker stack sync failed. Check console for details.",
+			);
 		} finally {
-			statusBarItemEl.remove();
+			this.isSyncing = false;
 		}
 	}
 
@@ -51,12 +289,16 @@ export default class CommandManager {
 		statusBarItemEl.setText("Fetching docker stacks...");
 
 		try {
-			const stacks = await this.githubService.fetchAllComposeStackFiles();
+			const { stacks } = await this.fetchStacks();
 			if (stacks.length === 0) {
 				new Notice("No Docker stacks found.");
 				return;
 			}
 
+			this.reportDuplicateStacks(stacks);
+			this.reportParseErrors(stacks);
+			this.reportRedactions(stacks);
+
 			statusBarItemEl.setText("Finding missing Docker stack notes...");
 			const missingStacks =
 				await this.obsidianService.findMissingStacks(stacks);
@@ -66,52 +308,634 @@ export default class CommandManager {
 				return;
 			}
 
+			statusBarItemEl.setText("Looking for renamed Docker stacks...");
+			const orphanedNotes =
+				await this.obsidianService.findOrphanedNotes(stacks);
+			const renameSuggestions = await this.obsidianService.findLikelyRenames(
+				orphanedNotes,
+				missingStacks,
+			);
+
 			statusBarItemEl.remove();
 
-			const modal = new StackSelectionModal(
+			if (renameSuggestions.length === 0) {
+				this.openStackSelectionModal(missingStacks);
+				return;
+			}
+
+			new RenameSuggestionsModal(
 				this.plugin.app,
-				this.plugin,
-				this.obsidianService,
-				missingStacks,
-				async (selectedStacks) => {
-					if (selectedStacks.length === 0) {
-						new Notice("No stacks selected for creation.");
+				renameSuggestions,
+				async (selectedSuggestions) => {
+					if (selectedSuggestions.length > 0) {
+						const repointedCount =
+							await this.obsidianService.repointNotes(selectedSuggestions);
+						new Notice(
+							`Updated ${repointedCount} note${repointedCount === 1 ? "" : "s"} to point to renamed Docker stacks.`,
+						);
+					}
+
+					const renamedStacks = new Set(
+						selectedSuggestions.map((suggestion) => suggestion.stack),
+					);
+					const remainingStacks = missingStacks.filter(
+						(stack) => !renamedStacks.has(stack),
+					);
+					if (remainingStacks.length > 0) {
+						this.openStackSelectionModal(remainingStacks);
+					}
+				},
+			).open();
+		} catch (err) {
+			console.error("Error creating Docker notes:", err);
+			new Notice("Failed to create Docker notes. Check console for details.");
+		} finally {
+			statusBarItemEl.remove();
+		}
+	}
+
+	async archiveOrphanedNotesCommand() {
+		const statusBarItemEl = this.plugin.addStatusBarItem();
+		statusBarItemEl.setText("Fetching docker stacks...");
+
+		try {
+			const { stacks, failedSources } = await this.fetchStacks();
+			if (failedSources.length > 0) {
+				// Stacks of the failed sources would look removed
+				new Notice(
+					"Some sources could not be fetched, so removed Docker stacks can not be told apart. Try again once every source is reachable.",
+				);
+				return;
+			}
+			if (stacks.length === 0) {
+				// An empty result is more likely a misconfigured source than every stack removed
+				new Notice("No Docker stacks found.");
+				return;
+			}
+
+			statusBarItemEl.setText("Finding notes of removed Docker stacks...");
+			const orphanedNotes =
+				await this.obsidianService.findOrphanedNotes(stacks);
+
+			if (orphanedNotes.length === 0) {
+				new Notice("All Docker stack notes match an existing stack.");
+				return;
+			}
+
+			new OrphanedNotesModal(
+				this.plugin.app,
+				orphanedNotes,
+				async (selectedNotes, action) => {
+					if (selectedNotes.length === 0) {
+						new Notice("No notes selected for archiving.");
 						return;
 					}
 
-					const creationStatusBar = this.plugin.addStatusBarItem();
-					creationStatusBar.setText("Creating notes from template...");
+					try {
+						const archivedCount = await this.obsidianService.archiveNotes(
+							selectedNotes,
+							action,
+						);
+						new Notice(
+							`Archived ${archivedCount} of ${selectedNotes.length} note${selectedNotes.length === 1 ? "" : "s"} of removed Docker stacks.`,
+						);
+					} catch (err) {
+						console.error("Error archiving Docker notes:", err);
+						new Notice(
+							"Failed to archive Docker notes. Check console for details.",
+						);
+					}
+				},
+			).open();
+		} catch (err) {
+			console.error("Error finding orphaned Docker notes:", err);
+			new Notice(
+				"Failed to find orphaned Docker notes. Check console for details.",
+			);
+		} finally {
+			statusBarItemEl.remove();
+		}
+	}
+
+	/**
+	 * Proposes the compose block of the active note as a pull request on the repository of its
+	 * stack, after reviewing the changes. Proposals based on an outdated version of the compose
+	 * file are refused, so changes made in the repository are never overwritten.
+	 */
+	async proposeChangesCommand() {
+		const file = this.plugin.app.workspace.getActiveFile();
+		const stackName = file
+			? (await this.obsidianService.getFrontmatter(file.path))?.[
+					this.plugin.settings.frontmatterProperty
+				]
+			: undefined;
+		if (!file || !stackName) {
+			new Notice("Open a Docker stack note to propose its changes.");
+			return;
+		}
+
+		const statusBarItemEl = this.plugin.addStatusBarItem();
+		statusBarItemEl.setText("Fetching docker stacks...");
+
+		try {
+			const stacks = (await this.fetchStacks()).stacks.filter(
+				(stack) => stack.name === stackName,
+			);
+			if (stacks.length !== 1) {
+				new Notice(
+					stacks.length === 0
+						? `Docker stack ${stackName} was not found.`
+						: `Several Docker stacks are named ${stackName}, rename one of them first.`,
+				);
+				return;
+			}
+			const [stack] = stacks;
+			const conflictMessage = `The compose file of ${stack.name} changed in the repository since the note was synced. Copy your changes, sync the note and apply them again.`;
+			if (stack.source.provider === "local") {
+				new Notice("Proposing changes is not supported for local sources.");
+				return;
+			}
+
+			const content = this.obsidianService.getComposeBlockContent(
+				await this.plugin.app.vault.read(file),
+			);
+			if (content === null) {
+				new Notice("The note has no compose code block.");
+				return;
+			}
+			if (content.trim() === stack.content.trim()) {
+				new Notice("The compose block has no changes to propose.");
+				return;
+			}
+
+			const baseSha = this.plugin.cache.syncedNotes[file.path]?.sha;
+			if (!baseSha) {
+				new Notice(
+					"The note was never synced, so its changes can not be checked for conflicts. Copy them, sync the note and apply them again.",
+				);
+				return;
+			}
+			if (baseSha !== stack.sha) {
+				new Notice(conflictMessage);
+				return;
+			}
 
+			new ProposeChangesModal(
+				this.plugin.app,
+				stack,
+				stack.content.trim(),
+				content.trim(),
+				async (title) => {
 					try {
-						const createdCount =
-							await this.obsidianService.createNotesFromTemplate(
-								selectedStacks,
-							);
+						const result = await this.githubService.proposeStackChange(
+							stack,
+							content,
+							baseSha,
+							title,
+							`Proposed from the Obsidian note "${file.basename}".`,
+						);
+						if (result.status === "conflict") {
+							new Notice(conflictMessage);
+							return;
+						}
+						if (result.status === "unchanged") {
+							new Notice("The compose block has no changes to propose.");
+							return;
+						}
 
-						if (createdCount > 0) {
+						new Notice(`Opened pull request for ${stack.name}: ${result.url}`);
+						try {
+							await this.obsidianService.setPullRequestUrl(file, result.url);
+						} catch (err) {
 							new Notice(
-								`Successfully created ${createdCount} new note${createdCount === 1 ? "" : "s"} for Docker stacks.`,
+								"Failed to record the pull request URL in the note. Check console for details.",
 							);
-						} else {
-							new Notice("Failed to create notes. Check console for errors.");
 						}
 					} catch (err) {
-						console.error("Error creating Docker notes:", err);
+						console.error(`Error proposing changes of ${stack.name}:`, err);
 						new Notice(
-							"Failed to create Docker notes. Check console for details.",
+							err instanceof LeftoverBranchError
+								? `Failed to propose changes, and the branch ${err.branch} could not be deleted. Delete it in the repository. Check console for details.`
+								: "Failed to propose changes. Check console for details.",
 						);
-					} finally {
-						creationStatusBar.remove();
 					}
 				},
+			).open();
+		} catch (err) {
+			console.error("Error fetching Docker stacks:", err);
+			new Notice("Failed to fetch Docker stacks. Check console for details.");
+		} finally {
+			statusBarItemEl.remove();
+		}
+	}
+
+	/**
+	 * Checks the stacks against the lint rules and writes the findings to the audit report.
+	 */
+	async auditStacksCommand() {
+		const statusBarItemEl = this.plugin.addStatusBarItem();
+		statusBarItemEl.setText("Fetching docker stacks...");
+
+		try {
+			const { stacks } = await this.fetchStacks();
+			if (stacks.length === 0) {
+				new Notice("No Docker stacks found.");
+				return;
+			}
+			this.reportParseErrors(stacks);
+
+			statusBarItemEl.setText("Auditing docker stacks...");
+			await this.writeAuditReport(stacks);
+		} catch (err) {
+			console.error("Error auditing Docker stacks:", err);
+			new Notice("Failed to audit Docker stacks. Check console for details.");
+		} finally {
+			statusBarItemEl.remove();
+		}
+	}
+
+	/**
+	 * Writes the audit report of the stacks. Failures are reported without stopping the sync
+	 * the audit runs in.
+	 */
+	private async writeAuditReport(stacks: DockerStackFile[]) {
+		const {
+			lintRules,
+			secretKeyPatterns,
+			secretValuePatterns,
+			redactionPlaceholder,
+		} = this.plugin.settings;
+
+		try {
+			const findings = lintStacks(
+				stacks,
+				lintRules,
+				compileRedactionRules({
+					keyPatterns: secretKeyPatterns,
+					valuePatterns: secretValuePatterns,
+					placeholder: redactionPlaceholder,
+				}),
+			);
+			const stackNotes = await this.obsidianService.findStackNotes(stacks);
+			const reportFile = await this.auditService.writeReport(
+				findings,
+				stackNotes,
+			);
+			new Notice(
+				findings.length > 0
+					? `Found ${findings.length} issue${findings.length === 1 ? "" : "s"} in Docker stacks, see ${reportFile.path}.`
+					: "No issues found in Docker stacks.",
+			);
+		} catch (err) {
+			console.error("Error writing Docker stack audit report:", err);
+			new Notice(
+				"Failed to write Docker stack audit report. Check console for details.",
+			);
+		}
+	}
+
+	/**
+	 * Exports the networks and volumes shared between stacks to the canvas, and links the
+	 * notes of stacks sharing a network when enabled.
+	 */
+	async exportCanvasCommand() {
+		const statusBarItemEl = this.plugin.addStatusBarItem();
+		statusBarItemEl.setText("Fetching docker stacks...");
+
+		try {
+			const { stacks } = await this.fetchStacks();
+			if (stacks.length === 0) {
+				new Notice("No Docker stacks found.");
+				return;
+			}
+			this.reportParseErrors(stacks);
+			this.reportRedactions(stacks, false);
+
+			statusBarItemEl.setText("Exporting Docker stacks canvas...");
+			const resources = findSharedResources(stacks);
+			const stackNotes = (
+				await this.obsidianService.findStackNotes(stacks)
+			).sort((a, b) => a.stack.name.localeCompare(b.stack.name));
+			const canvasFile = await this.canvasService.exportCanvas(
+				stackNotes,
+				resources,
 			);
 
-			modal.open();
+			let linkedMessage = "";
+			if (this.plugin.settings.linkNotesBySharedNetwork) {
+				const linkedCount = await this.canvasService.linkNotesBySharedNetworks(
+					stackNotes,
+					resources,
+				);
+				linkedMessage = ` Updated links in ${linkedCount} note${linkedCount === 1 ? "" : "s"}.`;
+			}
+
+			new Notice(
+				`Exported ${resources.length} shared networks and volumes to ${canvasFile.path}.${linkedMessage}`,
+			);
 		} catch (err) {
-			console.error("Error creating Docker notes:", err);
-			new Notice("Failed to create Docker notes. Check console for details.");
+			console.error("Error exporting Docker stacks canvas:", err);
+			new Notice(
+				"Failed to export Docker stacks canvas. Check console for details.",
+			);
 		} finally {
 			statusBarItemEl.remove();
 		}
 	}
+
+	/**
+	 * Regenerates the AI description and tags of stack notes, or only one of them. Notes are
+	 * picked first with the active note selected by default, and with `currentNoteOnly` the
+	 * active note is the only one offered. Changes are reviewed before being applied.
+	 */
+	async regenerateAIContentCommand(currentNoteOnly = false) {
+		if (!this.plugin.settings.useAI) {
+			new Notice(
+				"Enable AI in the settings to generate descriptions and tags.",
+			);
+			return;
+		}
+
+		const activeFile = this.plugin.app.workspace.getActiveFile();
+		if (currentNoteOnly && !activeFile) {
+			new Notice("No active note.");
+			return;
+		}
+
+		const statusBarItemEl = this.plugin.addStatusBarItem();
+		statusBarItemEl.setText("Fetching docker stacks...");
+
+		try {
+			const { stacks } = await this.fetchStacks();
+			const stackNotes = await this.obsidianService.findStackNotes(stacks);
+			const activeNotes = stackNotes.filter(
+				(note) => note.file.path === activeFile?.path,
+			);
+
+			if (currentNoteOnly && activeNotes.length === 0) {
+				new Notice("The active note does not belong to a Docker stack.");
+				return;
+			}
+			if (stackNotes.length === 0) {
+				new Notice("No notes of existing Docker stacks found.");
+				return;
+			}
+
+			new RegenerateInsightsModal(
+				this.plugin.app,
+				currentNoteOnly ? activeNotes : stackNotes,
+				activeNotes.map((note) => note.file.path),
+				async (selectedNotes, target) => {
+					if (selectedNotes.length === 0) {
+						new Notice("No notes selected.");
+						return;
+					}
+					await this.generateInsightUpdates(selectedNotes, target);
+				},
+			).open();
+		} catch (err) {
+			console.error("Error fetching Docker stacks:", err);
+			new Notice("Failed to fetch Docker stacks. Check console for details.");
+		} finally {
+			statusBarItemEl.remove();
+		}
+	}
+
+	private async generateInsightUpdates(
+		notes: StackNote[],
+		target: InsightTarget,
+	) {
+		const statusBarItemEl = this.plugin.addStatusBarItem();
+		statusBarItemEl.setText(
+			`Generating AI content for ${notes.length} note${notes.length === 1 ? "" : "s"}...`,
+		);
+
+		try {
+			const updates = await this.obsidianService.planInsightUpdates(
+				notes,
+				target,
+			);
+			if (updates.length === 0) {
+				new Notice(
+					"Nothing to update. Notes need a description placeholder or AI description region.",
+				);
+				return;
+			}
+			this.openInsightReviewModal(updates);
+		} catch (err) {
+			console.error("Error generating AI content:", err);
+			new Notice("Failed to generate AI content. Check console for details.");
+		} finally {
+			statusBarItemEl.remove();
+		}
+	}
+
+	private openInsightReviewModal(updates: InsightUpdate[]) {
+		new UpdateReviewModal(
+			this.plugin.app,
+			updates,
+			async (selectedUpdates) => {
+				const updatedCount =
+					await this.obsidianService.applyInsightUpdates(selectedUpdates);
+				new Notice(
+					`Updated AI content of ${updatedCount} of ${selectedUpdates.length} note${selectedUpdates.length === 1 ? "" : "s"}.`,
+				);
+			},
+			{
+				title: "Review AI Content",
+				describe: (update) =>
+					update.addedTags.length > 0
+						? `New tags: ${update.addedTags.join(", ")}`
+						: null,
+			},
+		).open();
+	}
+
+	private openStackSelectionModal(missingStacks: DockerStackFile[]) {
+		const modal = new StackSelectionModal(
+			this.plugin.app,
+			this.plugin,
+			this.obsidianService,
+			missingStacks,
+			async (selectedStacks) => {
+				if (selectedStacks.length === 0) {
+					new Notice("No stacks selected for creation.");
+					return;
+				}
+
+				const creationStatusBar = this.plugin.addStatusBarItem();
+				creationStatusBar.setText("Creating notes from template...");
+
+				try {
+					const { createdCount, unknownPlaceholders, templateErrors } =
+						await this.obsidianService.createNotesFromTemplate(selectedStacks);
+					await this.plugin.refreshDashboards();
+					this.reportTemplateErrors(templateErrors);
+					if (
+						this.plugin.settings.warnUnknownPlaceholders &&
+						unknownPlaceholders.length > 0
+					) {
+						new Notice(
+							`The template uses unknown placeholders, left as is: ${unknownPlaceholders.map((name) => `{{${name}}}`).join(", ")}`,
+						);
+					}
+
+					if (createdCount > 0) {
+						new Notice(
+							`Successfully created ${createdCount} new note${createdCount === 1 ? "" : "s"} for Docker stacks.`,
+						);
+					} else {
+						new Notice("Failed to create notes. Check console for errors.");
+					}
+				} catch (err) {
+					console.error("Error creating Docker notes:", err);
+					new Notice(
+						"Failed to create Docker notes. Check console for details.",
+					);
+				} finally {
+					creationStatusBar.remove();
+				}
+			},
+		);
+
+		modal.open();
+	}
+
+	/**
+	 * Shows how many notes changed, were already up to date, were skipped during review or
+	 * failed. Counts of the plan are added to those of the applied updates.
+	 */
+	/**
+	 * Shows the errors in the block structure of the template, which make notes render wrong.
+	 */
+	private reportTemplateErrors(errors: string[]) {
+		if (errors.length > 0) {
+			new Notice(
+				`The template has errors, check the created notes: ${errors.join("; ")}`,
+			);
+		}
+	}
+
+	private notifySyncResult(
+		result: SyncResult,
+		plan?: SyncPlan,
+		skippedCount = 0,
+	) {
+		const changed = result.changed;
+		const unchanged = result.unchanged + (plan?.unchanged ?? 0);
+		const failed = result.failed + (plan?.failed ?? 0);
+
+		if (changed + unchanged + failed + skippedCount === 0) {
+			new Notice("No matching notes found to update.");
+			return;
+		}
+
+		const parts = [
+			`${changed} changed`,
+			`${unchanged} unchanged`,
+			...(skippedCount > 0 ? [`${skippedCount} skipped`] : []),
+			`${failed} failed`,
+		];
+		new Notice(`Docker stack notes: ${parts.join(", ")}.`);
+	}
+
+	/**
+	 * Warns about sources that could not be fetched, whose notes are left untouched.
+	 */
+	private reportFailedSources(failedSources: SourceFetchError[]) {
+		if (failedSources.length === 0) {
+			return;
+		}
+
+		for (const { message } of failedSources) {
+			console.error(message);
+		}
+		new Notice(
+			`Could not fetch ${failedSources.length} source${failedSources.length === 1 ? "" : "s"}: ${failedSources.map(({ source }) => getSourceLabel(source)).join(", ")}. Stacks of the other sources were fetched. Check console for details.`,
+		);
+	}
+
+	/**
+	 * Warns about stacks sharing the same name, which are skipped until renamed.
+	 */
+	private reportDuplicateStacks(stacks: DockerStackFile[]) {
+		const duplicates = findDuplicateStacks(stacks);
+		if (duplicates.size === 0) {
+			return;
+		}
+
+		for (const [name, namedStacks] of duplicates) {
+			console.warn(
+				`Docker stack name "${name}" is used by multiple compose files:`,
+				namedStacks.map(
+					(stack) => `${getSourceLabel(stack.source)} ${stack.path}`,
+				),
+			);
+		}
+		new Notice(
+			`Skipped ${duplicates.size} duplicate stack name${duplicates.size === 1 ? "" : "s"}: ${[...duplicates.keys()].join(", ")}. Adjust the stack naming setting to tell them apart.`,
+		);
+	}
+
+	/**
+	 * Warns about compose files that could not be parsed. Their content is still synced.
+	 */
+	private reportParseErrors(stacks: DockerStackFile[]) {
+		const invalidStacks = stacks.filter((stack) => stack.parseError);
+		if (invalidStacks.length === 0) {
+			return;
+		}
+
+		for (const stack of invalidStacks) {
+			console.warn(
+				`Failed to parse compose file of stack "${stack.name}" (${stack.path}): ${stack.parseError}`,
+			);
+		}
+		new Notice(
+			`Could not parse ${invalidStacks.length} compose file${invalidStacks.length === 1 ? "" : "s"}: ${invalidStacks.map((stack) => stack.name).join(", ")}. Check console for details.`,
+		);
+	}
+
+	/**
+	 * Lists the secret values masked during this run in the console, by stack, file, line and
+	 * key, and sums them up in a notice unless `notify` is false.
+	 */
+	private reportRedactions(stacks: DockerStackFile[], notify = true) {
+		const redactedStacks = stacks.filter(
+			(stack) => stack.redactions.length > 0,
+		);
+		if (redactedStacks.length === 0) {
+			return;
+		}
+
+		for (const stack of redactedStacks) {
+			console.info(
+				`Masked secrets of stack "${stack.name}":`,
+				stack.redactions.map(
+					(redaction) =>
+						`${redaction.path}:${redaction.line} ${redaction.key} (matched by ${redaction.reason})`,
+				),
+			);
+		}
+		if (!notify) {
+			return;
+		}
+
+		const count = redactedStacks.reduce(
+			(total, stack) => total + stack.redactions.length,
+			0,
+		);
+		const summary = redactedStacks
+			.map(
+				(stack) =>
+					`${stack.name} (${stack.redactions
+						.map((redaction) => redaction.key)
+						.filter((key, index, keys) => keys.indexOf(key) === index)
+						.join(", ")})`,
+			)
+			.join("; ");
+		new Notice(
+			`Masked ${count} secret value${count === 1 ? "" : "s"}: ${summary}.`,
+		);
+	}
 }
@@ -0,0 +1,257 @@
+import { beforeAll, describe, expect, it, mock } from "bun:test";
+import { createObsidianModule } from "test/obsidian";
+
+mock.module("obsidian", createObsidianModule);
+let compose: typeof import("src/compose");
+
+beforeAll(async () => {
+	compose = await import("src/compose");
+});
+
+describe("resolveComposeExtends", () => {
+	it("resolves extends files relative to the file declaring them", () => {
+		const documents = new Map([
+			[
+				"services/web.yaml",
+				{
+					services: {
+						web: {
+							extends: { file: "../common/base.yaml", service: "base" },
+							image: "nginx:1.27",
+						},
+					},
+				},
+			],
+			[
+				"common/base.yaml",
+				{
+					services: {
+						base: { extends: { service: "logging" }, restart: "always" },
+						logging: { labels: ["logging=true"] },
+					},
+				},
+			],
+		]);
+
+		const resolved = compose.resolveComposeExtends(
+			{
+				include: ["services/web.yaml"],
+				services: {
+					app: {
+						extends: { file: "services/web.yaml", service: "web" },
+						ports: ["8080:80"],
+					},
+				},
+			},
+			documents,
+		);
+
+		expect(resolved).toEqual({
+			services: {
+				app: {
+					labels: ["logging=true"],
+					restart: "always",
+					image: "nginx:1.27",
+					ports: ["8080:80"],
+				},
+			},
+		});
+	});
+});
+
+describe("getComposeReferences", () => {
+	it("lists included, extended and env files", () => {
+		expect(
+			compose.getComposeReferences({
+				include: ["base.yaml", { path: ["db.yaml", "cache.yaml"] }],
+				services: {
+					web: {
+						extends: { file: "common.yaml", service: "web" },
+						env_file: ".env",
+					},
+					worker: {
+						extends: { service: "web" },
+						env_file: [{ path: "worker.env", required: false }],
+					},
+				},
+			}),
+		).toEqual({
+			includes: ["base.yaml", "db.yaml", "cache.yaml"],
+			extends: ["common.yaml"],
+			envFiles: [".env", "worker.env"],
+		});
+	});
+});
+
+describe("mergeComposeValues", () => {
+	it("merges mappings, concatenates sequences and overrides scalars", () => {
+		expect(
+			compose.mergeComposeValues(
+				{
+					image: "nginx:1.26",
+					ports: ["80:80"],
+					labels: { a: "1", b: "2" },
+				},
+				{
+					image: "nginx:1.27",
+					ports: ["80:80", "443:443"],
+					labels: { b: "3" },
+					restart: "always",
+				},
+			),
+		).toEqual({
+			image: "nginx:1.27",
+			ports: ["80:80", "443:443"],
+			labels: { a: "1", b: "3" },
+			restart: "always",
+		});
+	});
+});
+
+describe("parseCompose", () => {
+	const content = [
+		"services:",
+		"  web:",
+		"    image: ghcr.io/org/web:1.2",
+		"    restart: unless-stopped",
+		"    ports:",
+		'      - "127.0.0.1:8080:80"',
+		'      - "${PORT:-9000}:9000/udp"',
+		'      - "[::1]:8443:443"',
+		"      - 3000",
+		"      - target: 5432",
+		"        published: 15432",
+		"    volumes:",
+		"      - ./config:/etc/web:ro",
+		"      - data:/var/lib/web",
+		"      - /cache",
+		"    networks: [front, back]",
+		"    environment:",
+		"      - DOMAIN=example.com",
+		"      - EMPTY",
+		"    labels:",
+		"      traefik.enable: true",
+		"    depends_on:",
+		"      db:",
+		"        condition: service_healthy",
+		"  db:",
+		"    image: postgres@sha256:abc",
+		"    privileged: true",
+		"networks:",
+		"  front:",
+		"  back:",
+		"    external: true",
+		"    name: shared",
+		"volumes:",
+		"  data: {}",
+	].join("\n");
+
+	it("parses services, ports, volumes and resources", () => {
+		const model = compose.parseCompose(content);
+
+		expect(model.services[0]).toEqual({
+			name: "web",
+			image: "ghcr.io/org/web:1.2",
+			imageName: "ghcr.io/org/web",
+			tag: "1.2",
+			ports: [
+				{
+					published: "8080",
+					target: "80",
+					protocol: "tcp",
+					hostIp: "127.0.0.1",
+				},
+				{
+					published: "${PORT:-9000}",
+					target: "9000",
+					protocol: "udp",
+					hostIp: undefined,
+				},
+				{ published: "8443", target: "443", protocol: "tcp", hostIp: "::1" },
+				{
+					published: undefined,
+					target: "3000",
+					protocol: "tcp",
+					hostIp: undefined,
+				},
+				{
+					published: "15432",
+					target: "5432",
+					protocol: "tcp",
+					hostIp: undefined,
+				},
+			],
+			volumes: [
+				{
+					type: "bind",
+					source: "./config",
+					target: "/etc/web",
+					readOnly: true,
+				},
+				{
+					type: "volume",
+					source: "data",
+					target: "/var/lib/web",
+					readOnly: false,
+				},
+				{ type: "volume", target: "/cache", readOnly: false },
+			],
+			networks: ["front", "back"],
+			environment: ["DOMAIN", "EMPTY"],
+			labels: { "traefik.enable": "true" },
+			dependsOn: ["db"],
+			restart: "unless-stopped",
+			privileged: false,
+		});
+		expect(model.services[1]).toMatchObject({
+			name: "db",
+			imageName: "postgres",
+			tag: "sha256:abc",
+			privileged: true,
+		});
+		expect(model.networks).toEqual([
+			{ name: "front", external: false },
+			{ name: "shared", external: true },
+		]);
+		expect(model.volumes).toEqual([{ name: "data", external: false }]);
+	});
+
+	it("flattens the model into field values", () => {
+		expect(
+			compose.getComposeFieldValues(compose.parseCompose(content)),
+		).toEqual({
+			images: ["ghcr.io/org/web:1.2", "postgres@sha256:abc"],
+			services: ["web", "db"],
+			ports: [
+				"127.0.0.1:8080:80",
+				"${PORT:-9000}:9000/udp",
+				"::1:8443:443",
+				"15432:5432",
+			],
+			networks: ["front", "back", "shared"],
+			volumes: ["data"],
+		});
+	});
+
+	it("rejects content without services", () => {
+		expect(() => compose.parseCompose("- item")).toThrow(
+			"Compose file is not a YAML mapping",
+		);
+		expect(() => compose.parseCompose("version: '3'")).toThrow(
+			"Compose file has no services",
+		);
+	});
+});
+
+describe("parseImage", () => {
+	it("splits images into name and tag", () => {
+		expect(compose.parseImage("nginx")).toEqual({ name: "nginx" });
+		expect(compose.parseImage("registry:5000/app")).toEqual({
+			name: "registry:5000/app",
+		});
+		expect(compose.parseImage("registry:5000/app:2")).toEqual({
+			name: "registry:5000/app",
+			tag: "2",
+		});
+	});
+});
@@ -0,0 +1,463 @@
+import { parseYaml } from "obsidian";
+import { posix } from "path";
+
+export type ComposePort = {
+	/** Host port or range, undefined when the port is not published on the host. */
+	published?: string;
+	target: string;
+	protocol: string;
+	hostIp?: string;
+};
+
+export type ComposeVolume = {
+	type: string;
+	/** Named volume or host path, undefined for anonymous volumes. */
+	source?: string;
+	target: string;
+	readOnly: boolean;
+};
+
+export type ComposeService = {
+	name: string;
+	image?: string;
+	/** Image reference without tag or digest, e.g. "ghcr.io/org/app". */
+	imageName?: string;
+	tag?: string;
+	ports: ComposePort[];
+	volumes: ComposeVolume[];
+	networks: string[];
+	environment: string[];
+	labels: Record<string, string>;
+	dependsOn: string[];
+	restart?: string;
+	privileged: boolean;
+};
+
+export type ComposeResource = {
+	name: string;
+	external: boolean;
+};
+
+/**
+ * Typed view of a compose file, limited to what is useful to document a stack.
+ */
+export type ComposeModel = {
+	services: ComposeService[];
+	networks: ComposeResource[];
+	volumes: ComposeResource[];
+};
+
+export type RawObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is RawObject {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function toStringValue(value: unknown): string | undefined {
+	if (value === undefined || value === null) {
+		return undefined;
+	}
+	return String(value);
+}
+
+/**
+ * Returns the keys of a compose mapping that may also be written as a list,
+ * e.g. `depends_on` or `networks`.
+ */
+function getNames(value: unknown): string[] {
+	if (Array.isArray(value)) {
+		return value.map((item) => String(item));
+	}
+	if (isObject(value)) {
+		return Object.keys(value);
+	}
+	return [];
+}
+
+/**
+ * Parses `KEY=value` lists and mappings, as used by `environment` and `labels`.
+ */
+function getKeyValues(value: unknown): Record<string, string> {
+	const result: Record<string, string> = {};
+	if (Array.isArray(value)) {
+		for (const item of value) {
+			const [key, ...rest] = String(item).split("=");
+			result[key] = rest.join("=");
+		}
+	} else if (isObject(value)) {
+		for (const [key, item] of Object.entries(value)) {
+			result[key] = toStringValue(item) ?? "";
+		}
+	}
+	return result;
+}
+
+/**
+ * Splits an image reference into name and tag. Digests are kept as tag.
+ */
+export function parseImage(image: string): { name: string; tag?: string } {
+	const digestIndex = image.indexOf("@");
+	if (digestIndex !== -1) {
+		return {
+			name: image.slice(0, digestIndex),
+			tag: image.slice(digestIndex + 1),
+		};
+	}
+
+	const tagIndex = image.lastIndexOf(":");
+	if (tagIndex > image.lastIndexOf("/")) {
+		return { name: image.slice(0, tagIndex), tag: image.slice(tagIndex + 1) };
+	}
+	return { name: image };
+}
+
+/**
+ * Splits port and volume mappings on colons, except those of interpolations such as
+ * `${PORT:-8080}`.
+ */
+function splitMapping(value: string): string[] {
+	return value.split(/:(?![^{]*\})/);
+}
+
+function parsePort(value: unknown): ComposePort | null {
+	if (isObject(value)) {
+		const target = toStringValue(value.target);
+		if (!target) {
+			return null;
+		}
+		return {
+			published: toStringValue(value.published),
+			target,
+			protocol: toStringValue(value.protocol) ?? "tcp",
+			hostIp: toStringValue(value.host_ip),
+		};
+	}
+
+	const raw = toStringValue(value);
+	if (!raw) {
+		return null;
+	}
+
+	const [mapping, protocol = "tcp"] = raw.split("/");
+	// IPv6 host addresses are written in brackets, e.g. "[::1]:8080:80"
+	const ipv6 = mapping.match(/^\[([^\]]+)\]:(.*)$/);
+	const parts = ipv6
+		? [ipv6[1], ...splitMapping(ipv6[2])]
+		: splitMapping(mapping);
+	const target = parts.pop() as string;
+	const published = parts.pop() || undefined;
+	const hostIp = parts.pop() || undefined;
+
+	return { published, target, protocol, hostIp };
+}
+
+function isHostPath(source: string): boolean {
+	return /^[./~$]/.test(source);
+}
+
+function parseVolume(value: unknown): ComposeVolume | null {
+	if (isObject(value)) {
+		const target = toStringValue(value.target);
+		if (!target) {
+			return null;
+		}
+		return {
+			type: toStringValue(value.type) ?? "volume",
+			source: toStringValue(value.source),
+			target,
+			readOnly: value.read_only === true,
+		};
+	}
+
+	const raw = toStringValue(value);
+	if (!raw) {
+		return null;
+	}
+
+	const [first, second, mode] = splitMapping(raw);
+	if (second === undefined) {
+		return { type: "volume", target: first, readOnly: false };
+	}
+	return {
+		type: isHostPath(first) ? "bind" : "volume",
+		source: first,
+		target: second,
+		readOnly: (mode ?? "").split(",").includes("ro"),
+	};
+}
+
+function parseService(name: string, raw: RawObject): ComposeService {
+	const image = toStringValue(raw.image);
+	const { name: imageName, tag } = image
+		? parseImage(image)
+		: { name: undefined, tag: undefined };
+
+	return {
+		name,
+		image,
+		imageName,
+		tag,
+		ports: (Array.isArray(raw.ports) ? raw.ports : [])
+			.map(parsePort)
+			.filter((port): port is ComposePort => port !== null),
+		volumes: (Array.isArray(raw.volumes) ? raw.volumes : [])
+			.map(parseVolume)
+			.filter((volume): volume is ComposeVolume => volume !== null),
+		networks: getNames(raw.networks),
+		environment: Object.keys(getKeyValues(raw.environment)),
+		labels: getKeyValues(raw.labels),
+		dependsOn: getNames(raw.depends_on),
+		restart: toStringValue(raw.restart),
+		privileged: raw.privileged === true,
+	};
+}
+
+function parseResources(value: unknown): ComposeResource[] {
+	if (!isObject(value)) {
+		return [];
+	}
+	return Object.entries(value).map(([name, resource]) => ({
+		name: isObject(resource) && resource.name ? String(resource.name) : name,
+		external: isObject(resource) && !!resource.external,
+	}));
+}
+
+/**
+ * Parses compose file content into a {@link ComposeModel}.
+ * Throws when the content is not valid YAML or has no services.
+ */
+export function parseCompose(content: string): ComposeModel {
+	return parseComposeDocument(parseComposeYaml(content));
+}
+
+/**
+ * Parses compose file content into a raw YAML mapping.
+ * Throws when the content is not valid YAML or not a mapping.
+ */
+export function parseComposeYaml(content: string): RawObject {
+	const raw: unknown = parseYaml(content);
+	if (!isObject(raw)) {
+		throw new Error("Compose file is not a YAML mapping");
+	}
+	return raw;
+}
+
+/**
+ * Builds a {@link ComposeModel} from a raw compose document.
+ * Throws when the document has no services.
+ */
+export function parseComposeDocument(raw: RawObject): ComposeModel {
+	if (!isObject(raw.services)) {
+		throw new Error("Compose file has no services");
+	}
+
+	return {
+		services: Object.entries(raw.services)
+			.filter((entry): entry is [string, RawObject] => isObject(entry[1]))
+			.map(([name, service]) => parseService(name, service)),
+		networks: parseResources(raw.networks),
+		volumes: parseResources(raw.volumes),
+	};
+}
+
+export type ComposeReferences = {
+	/** Compose files pulled in with the top-level `include:` element. */
+	includes: string[];
+	/** Compose files referenced by `extends.file` of services. */
+	extends: string[];
+	/** Files referenced by `env_file` of services. */
+	envFiles: string[];
+};
+
+function getPaths(value: unknown): string[] {
+	const items = Array.isArray(value) ? value : value ? [value] : [];
+	return items.reduce<string[]>((paths, item) => {
+		if (typeof item === "string") {
+			return paths.concat(item);
+		}
+		if (isObject(item)) {
+			return paths.concat(getPaths(item.path));
+		}
+		return paths;
+	}, []);
+}
+
+/**
+ * Lists the files a compose document references, relative to the document.
+ */
+export function getComposeReferences(raw: RawObject): ComposeReferences {
+	const services = isObject(raw.services) ? Object.values(raw.services) : [];
+	const references: ComposeReferences = {
+		includes: getPaths(raw.include),
+		extends: [],
+		envFiles: [],
+	};
+
+	for (const service of services) {
+		if (!isObject(service)) {
+			continue;
+		}
+		if (isObject(service.extends) && typeof service.extends.file === "string") {
+			references.extends.push(service.extends.file);
+		}
+		references.envFiles.push(...getPaths(service.env_file));
+	}
+
+	return references;
+}
+
+/**
+ * Merges compose documents following the compose merge rules in a simplified way: mappings
+ * are merged recursively, sequences are concatenated without duplicates and other values of
+ * later documents override earlier ones.
+ */
+export function mergeComposeValues(base: unknown, override: unknown): unknown {
+	if (isObject(base) && isObject(override)) {
+		const merged: RawObject = { ...base };
+		for (const [key, value] of Object.entries(override)) {
+			merged[key] = key in base ? mergeComposeValues(base[key], value) : value;
+		}
+		return merged;
+	}
+	if (Array.isArray(base) && Array.isArray(override)) {
+		const serialized = base.map((item) => JSON.stringify(item));
+		return base.concat(
+			override.filter((item) => !serialized.includes(JSON.stringify(item))),
+		);
+	}
+	return override;
+}
+
+/**
+ * Resolves `extends` of every service, using the documents of the stack keyed by their path
+ * relative to the main compose file. The `file` of an `extends` is relative to the document
+ * declaring it, and without `file` the service extends one of the same document. The
+ * `include` and `extends` elements are removed.
+ */
+export function resolveComposeExtends(
+	raw: RawObject,
+	documents: Map<string, RawObject>,
+): RawObject {
+	if (!isObject(raw.services)) {
+		return raw;
+	}
+
+	// `path` is the path of the document relative to the main compose file, "" for the main one
+	const resolveService = (
+		document: RawObject,
+		path: string,
+		name: string,
+		seen: Set<string>,
+	): RawObject => {
+		const service = isObject(document.services)
+			? document.services[name]
+			: undefined;
+		if (!isObject(service)) {
+			return {};
+		}
+		const { extends: parent, ...rest } = service;
+		if (!isObject(parent) || typeof parent.service !== "string") {
+			return rest;
+		}
+
+		const parentPath =
+			typeof parent.file === "string"
+				? posix.normalize(posix.join(posix.dirname(path), parent.file))
+				: path;
+		const key = `${parentPath}#${parent.service}`;
+		if (seen.has(key)) {
+			return rest;
+		}
+		seen.add(key);
+
+		const parentDocument =
+			typeof parent.file === "string" ? documents.get(parentPath) : document;
+		const base = parentDocument
+			? resolveService(parentDocument, parentPath, parent.service, seen)
+			: {};
+		return mergeComposeValues(base, rest) as RawObject;
+	};
+
+	const services: RawObject = {};
+	for (const name of Object.keys(raw.services)) {
+		services[name] = resolveService(raw, "", name, new Set());
+	}
+
+	const resolved: RawObject = { ...raw, services };
+	delete resolved.include;
+	return resolved;
+}
+
+export type ComposeField =
+	"images" | "services" | "ports" | "networks" | "volumes";
+
+export const COMPOSE_FIELDS: Record<ComposeField, string> = {
+	images: "Images",
+	services: "Services",
+	ports: "Published ports",
+	networks: "Networks",
+	volumes: "Named volumes",
+};
+
+function unique(values: string[]): string[] {
+	return values.filter((value, index) => values.indexOf(value) === index);
+}
+
+/**
+ * Formats a port in compose short syntax, e.g. "127.0.0.1:8080:80/udp".
+ */
+export function formatPort(port: ComposePort): string {
+	const host = port.hostIp ? `${port.hostIp}:` : "";
+	const published = port.published ? `${host}${port.published}:` : "";
+	const protocol = port.protocol === "tcp" ? "" : `/${port.protocol}`;
+	return `${published}${port.target}${protocol}`;
+}
+
+/**
+ * Flattens a compose model into lists of values, e.g. to write them as note properties.
+ */
+export function getComposeFieldValues(
+	model: ComposeModel,
+): Record<ComposeField, string[]> {
+	const { services } = model;
+	return {
+		images: unique(
+			services
+				.map((service) => service.image)
+				.filter((image): image is string => !!image),
+		),
+		services: services.map((service) => service.name),
+		ports: unique(
+			services.reduce<string[]>(
+				(ports, service) =>
+					ports.concat(
+						service.ports
+							.filter((port) => port.published)
+							.map((port) => formatPort(port)),
+					),
+				[],
+			),
+		),
+		networks: unique(
+			services
+				.reduce<string[]>(
+					(networks, service) => networks.concat(service.networks),
+					[],
+				)
+				.concat(model.networks.map((network) => network.name)),
+		),
+		volumes: unique(
+			services
+				.reduce<string[]>(
+					(volumes, service) =>
+						volumes.concat(
+							service.volumes
+								.filter((volume) => volume.type === "volume" && volume.source)
+								.map((volume) => volume.source as string),
+						),
+					[],
+				)
+				.concat(model.volumes.map((volume) => volume.name)),
+		),
+	};
+}
@@ -0,0 +1,107 @@
+export type DiffLine = {
+	type: "added" | "removed" | "unchanged";
+	text: string;
+};
+
+/**
+ * Computes a line diff between two texts using the longest common subsequence.
+ */
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+	const oldLines = oldText.split(/\r?\n/);
+	const newLines = newText.split(/\r?\n/);
+
+	// lengths[i][j] is the LCS length of oldLines[i:] and newLines[j:]
+	const lengths: number[][] = Array.from({ length: oldLines.length + 1 }, () =>
+		new Array(newLines.length + 1).fill(0),
+	);
+	for (let i = oldLines.length - 1; i >= 0; i--) {
+		for (let j = newLines.length - 1; j >= 0; j--) {
+			lengths[i][j] =
+				oldLines[i] === newLines[j]
+					? lengths[i + 1][j + 1] + 1
+					: Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+		}
+	}
+
+	const lines: DiffLine[] = [];
+	let i = 0;
+	let j = 0;
+	while (i < oldLines.length && j < newLines.length) {
+		if (oldLines[i] === newLines[j]) {
+			lines.push({ type: "unchanged", text: oldLines[i] });
+			i++;
+			j++;
+		} else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+			lines.push({ type: "removed", text: oldLines[i++] });
+		} else {
+			lines.push({ type: "added", text: newLines[j++] });
+		}
+	}
+	while (i < oldLines.length) {
+		lines.push({ type: "removed", text: oldLines[i++] });
+	}
+	while (j < newLines.length) {
+		lines.push({ type: "added", text: newLines[j++] });
+	}
+
+	return lines;
+}
+
+/**
+ * Keeps only changed lines and up to `context` unchanged lines around them.
+ * Skipped parts are represented by `null`.
+ */
+export function getDiffHunks(
+	lines: DiffLine[],
+	context = 3,
+): (DiffLine | null)[] {
+	const visible = lines.map(() => false);
+	lines.forEach((line, index) => {
+		if (line.type === "unchanged") {
+			return;
+		}
+		const start = Math.max(0, index - context);
+		const end = Math.min(lines.length - 1, index + context);
+		for (let k = start; k <= end; k++) {
+			visible[k] = true;
+		}
+	});
+
+	const hunks: (DiffLine | null)[] = [];
+	lines.forEach((line, index) => {
+		if (visible[index]) {
+			hunks.push(line);
+		} else if (hunks.length === 0 || hunks[hunks.length - 1] !== null) {
+			hunks.push(null);
+		}
+	});
+	return hunks;
+}
+
+/**
+ * Returns the share of meaningful lines two texts have in common, from 0 to 1
+ * (Dice coefficient). Blank lines and comments are ignored.
+ */
+export function getLineSimilarity(a: string, b: string): number {
+	const getLines = (text: string) =>
+		new Set(
+			text
+				.split(/\r?\n/)
+				.map((line) => line.trim())
+				.filter((line) => line && !line.startsWith("#")),
+		);
+
+	const linesA = getLines(a);
+	const linesB = getLines(b);
+	if (linesA.size === 0 || linesB.size === 0) {
+		return 0;
+	}
+
+	let common = 0;
+	linesA.forEach((line) => {
+		if (linesB.has(line)) {
+			common++;
+		}
+	});
+	return (2 * common) / (linesA.size + linesB.size);
+}
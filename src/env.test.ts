@@ -0,0 +1,107 @@
+import { describe, expect, it } from "bun:test";
+import { findComposeVariables, getEnvVariables, parseEnvFile } from "src/env";
+
+describe("findComposeVariables", () => {
+	it("lists variables with their defaults and requirements", () => {
+		const content = [
+			"services:",
+			"  web:",
+			"    image: nginx:${NGINX_VERSION:-1.27}",
+			"    # ports: ${COMMENTED_PORT}",
+			"    environment:",
+			"      - URL=${URL:-http://${HOST:-localhost}:$PORT}",
+			"      - TOKEN=${TOKEN:?token is required}",
+			"      - EMPTY=${EMPTY-}",
+			"      - DEBUG=${DEBUG:+--debug}",
+			"      - PRICE=$$5",
+		].join("\n");
+
+		expect(findComposeVariables(content)).toEqual([
+			{
+				name: "NGINX_VERSION",
+				defaultValue: "1.27",
+				required: false,
+				documented: false,
+			},
+			{
+				name: "URL",
+				defaultValue: "http://${HOST:-localhost}:$PORT",
+				required: false,
+				documented: false,
+			},
+			{
+				name: "HOST",
+				defaultValue: "localhost",
+				required: false,
+				documented: false,
+			},
+			{ name: "PORT", required: false, documented: false },
+			{ name: "TOKEN", required: true, documented: false },
+			{ name: "EMPTY", defaultValue: "", required: false, documented: false },
+			{ name: "DEBUG", required: false, documented: false },
+		]);
+	});
+});
+
+describe("parseEnvFile", () => {
+	it("parses values, quotes, comments and exports", () => {
+		const values = parseEnvFile(
+			[
+				"# Domain of the stack",
+				"DOMAIN=example.com",
+				"",
+				"export PORT = 8080 # published port",
+				'TITLE="My # stack"',
+				"QUOTED='single' # comment",
+				"EMPTY=",
+				"not a variable",
+			].join("\r\n"),
+		);
+
+		expect(Object.fromEntries(values)).toEqual({
+			DOMAIN: "example.com",
+			PORT: "8080",
+			TITLE: "My # stack",
+			QUOTED: "single",
+			EMPTY: "",
+		});
+	});
+});
+
+describe("getEnvVariables", () => {
+	it("combines the variables of all compose files with the example file", () => {
+		const variables = getEnvVariables(
+			["image: app:${VERSION}", "image: app:${VERSION:-latest}\nkey: ${KEY:?}"],
+			"VERSION=1.0\n",
+		);
+
+		expect(variables).toEqual([
+			{
+				name: "VERSION",
+				defaultValue: "latest",
+				exampleValue: "1.0",
+				required: false,
+				documented: true,
+			},
+			{
+				name: "KEY",
+				defaultValue: undefined,
+				exampleValue: undefined,
+				required: true,
+				documented: false,
+			},
+		]);
+	});
+
+	it("marks every variable undocumented without example file", () => {
+		expect(getEnvVariables(["${A}"], null)).toEqual([
+			{
+				name: "A",
+				defaultValue: undefined,
+				exampleValue: undefined,
+				required: false,
+				documented: false,
+			},
+		]);
+	});
+});
@@ -0,0 +1,107 @@
+/**
+ * A variable interpolated in the compose files of a stack, e.g. `${DOMAIN:-localhost}`.
+ */
+export type EnvVariable = {
+	name: string;
+	/** Default value from `${VAR:-default}` or `${VAR-default}` syntax. */
+	defaultValue?: string;
+	/** Value in the `.env.example` file of the stack. */
+	exampleValue?: string;
+	/** Whether the compose file requires the variable with `${VAR:?error}` syntax. */
+	required: boolean;
+	/** Whether the variable is listed in the `.env.example` file of the stack. */
+	documented: boolean;
+};
+
+// Matches `$$` escapes, `${VAR}` with an optional modifier (`:-`, `-`, `:?`, `?`, `:+`, `+`),
+// allowing one level of nested braces in the modifier value, and `$VAR`
+const VARIABLE_REGEX =
+	/\$\$|\$\{([A-Za-z_][A-Za-z0-9_]*)(?:(:?[-?+])((?:[^{}]|\{[^{}]*\})*))?\}|\$([A-Za-z_][A-Za-z0-9_]*)/g;
+
+/**
+ * Lists the variables interpolated in compose file content, in order of first appearance.
+ * Commented lines are ignored.
+ */
+export function findComposeVariables(content: string): EnvVariable[] {
+	const variables = new Map<string, EnvVariable>();
+	const text = content.replace(/^\s*#.*$/gm, "");
+
+	const addVariables = (value: string) => {
+		const regex = new RegExp(VARIABLE_REGEX.source, "g");
+		let match: RegExpExecArray | null;
+		while ((match = regex.exec(value)) !== null) {
+			const name = match[1] ?? match[4];
+			if (!name) {
+				continue;
+			}
+
+			const [, , modifier = "", modifierValue = ""] = match;
+			const variable = variables.get(name) ?? {
+				name,
+				required: false,
+				documented: false,
+			};
+			if (modifier.endsWith("-") && variable.defaultValue === undefined) {
+				variable.defaultValue = modifierValue;
+			}
+			if (modifier.endsWith("?")) {
+				variable.required = true;
+			}
+			variables.set(name, variable);
+
+			// Defaults may reference other variables, e.g. `${URL:-http://${HOST}}`
+			addVariables(modifierValue);
+		}
+	};
+	addVariables(text);
+
+	return Array.from(variables.values());
+}
+
+/**
+ * Parses `KEY=value` lines of an env file. Comments, blank lines and `export` are ignored.
+ */
+export function parseEnvFile(content: string): Map<string, string> {
+	const values = new Map<string, string>();
+	for (const line of content.split(/\r?\n/)) {
+		const match = line.match(
+			/^\s*(?:export\s+)?([A-Za-z_][A-Za-z0-9_]*)\s*=\s*(.*?)\s*$/,
+		);
+		if (!match) {
+			continue;
+		}
+		const [, key, value] = match;
+		const quoted = value.match(/^(["'])(.*?)\1(?:\s+#.*)?$/);
+		values.set(key, quoted ? quoted[2] : value.replace(/\s+#.*$/, ""));
+	}
+	return values;
+}
+
+/**
+ * Collects the variables of all compose files of a stack with their value in the example
+ * env file. Without example file, every variable is undocumented.
+ */
+export function getEnvVariables(
+	composeContents: string[],
+	exampleContent: string | null,
+): EnvVariable[] {
+	const examples = parseEnvFile(exampleContent ?? "");
+	const variables = new Map<string, EnvVariable>();
+
+	for (const content of composeContents) {
+		for (const variable of findComposeVariables(content)) {
+			const existing = variables.get(variable.name);
+			variables.set(variable.name, {
+				...variable,
+				defaultValue: existing?.defaultValue ?? variable.defaultValue,
+				required: !!existing?.required || variable.required,
+			});
+		}
+	}
+
+	return Array.from(variables.values()).map((variable) => ({
+		...variable,
+		exampleValue: examples.get(variable.name),
+		documented: examples.has(variable.name),
+	}));
+}
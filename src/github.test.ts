@@ -0,0 +1,389 @@
+import {
+	afterAll,
+	beforeAll,
+	beforeEach,
+	describe,
+	expect,
+	it,
+	mock,
+} from "bun:test";
+import type { DockerStackFile, RepositorySource } from "src/github";
+import type DockerToObsiPlugin from "src/main";
+import type { ProviderType } from "src/providers";
+import { LeftoverBranchError } from "src/providers/provider";
+import {
+	DEFAULT_SECRET_KEY_PATTERNS,
+	DEFAULT_SECRET_VALUE_PATTERNS,
+} from "src/redact";
+import MockApiServer, {
+	type MockResponse,
+	type RecordedRequest,
+} from "test/mockServer";
+import { createObsidianModule } from "test/obsidian";
+
+mock.module("obsidian", createObsidianModule);
+
+const server = new MockApiServer();
+let GithubService: typeof import("src/github").default;
+let service: InstanceType<typeof GithubService>;
+
+const original =
+	"services:\n  web:\n    environment:\n      DB_PASSWORD: hunter2\n";
+const redacted =
+	"services:\n  web:\n    environment:\n      DB_PASSWORD: <redacted>\n";
+const edited =
+	"services:\n  web:\n    image: nginx:1.27\n    environment:\n      DB_PASSWORD: <redacted>\n";
+const expected =
+	"services:\n  web:\n    image: nginx:1.27\n    environment:\n      DB_PASSWORD: hunter2\n";
+
+function createStack(provider: ProviderType): DockerStackFile {
+	const source: RepositorySource = {
+		id: provider,
+		provider,
+		baseUrl: server.url,
+		owner: "owner",
+		repo: "repo",
+		ref: "main",
+		path: "",
+		token: "",
+		directory: "",
+	};
+	return {
+		name: "web",
+		content: redacted,
+		path: "web/compose.yaml",
+		sha: "base",
+		source,
+		url: "",
+		files: [],
+		variables: [],
+		redactions: [],
+		commits: [],
+	};
+}
+
+function decodeBase64(content: string): string {
+	return Buffer.from(content, "base64").toString("utf8");
+}
+
+/**
+ * Answers the GitHub API calls of a proposal, failing the requests `fail` returns true for
+ * with `failStatus`.
+ */
+function handleGithub(
+	fail: (request: RecordedRequest) => boolean = () => false,
+	failStatus = 422,
+) {
+	return (request: RecordedRequest): MockResponse => {
+		if (fail(request)) {
+			return { status: failStatus, body: { message: "Failed" } };
+		}
+		const route = `${request.method} ${request.path.split("?")[0]}`;
+		switch (route) {
+			case "GET /repos/owner/repo/git/trees/main":
+				return {
+					body: {
+						tree: [{ path: "web/compose.yaml", sha: "base", type: "blob" }],
+						truncated: false,
+					},
+				};
+			case "GET /repos/owner/repo/git/blobs/base":
+				return { body: original };
+			case "GET /repos/owner/repo/commits/main":
+				return { body: { sha: "commit" } };
+			case "POST /repos/owner/repo/pulls":
+				return {
+					status: 201,
+					body: { html_url: "https://github.com/owner/repo/pull/1" },
+				};
+			default:
+				return request.method === "DELETE"
+					? { status: 204 }
+					: { status: 201, body: {} };
+		}
+	};
+}
+
+const gitlabProjectPath = "/api/v4/projects/owner%2Frepo";
+
+/**
+ * Answers the GitLab API calls of a proposal, failing the requests `fail` returns true for
+ * with `failStatus`.
+ */
+function handleGitlab(
+	fail: (request: RecordedRequest) => boolean,
+	failStatus = 409,
+) {
+	return (request: RecordedRequest): MockResponse => {
+		if (fail(request)) {
+			return { status: failStatus, body: { message: "Failed" } };
+		}
+		const route = `${request.method} ${request.path.split("?")[0]}`;
+		switch (route) {
+			case `GET ${gitlabProjectPath}/repository/tree`:
+				return {
+					body: [{ id: "base", path: "web/compose.yaml", type: "blob" }],
+				};
+			case `GET ${gitlabProjectPath}/repository/blobs/base/raw`:
+				return { body: original };
+			case `GET ${gitlabProjectPath}/repository/files/web%2Fcompose.yaml`:
+				return { body: { blob_id: "base", last_commit_id: "last" } };
+			default:
+				return request.method === "DELETE"
+					? { status: 204 }
+					: { status: 201, body: {} };
+		}
+	};
+}
+
+function findRequest(method: string, path: string) {
+	return server.requests.find(
+		(request) => request.method === method && request.path.startsWith(path),
+	);
+}
+
+beforeAll(async () => {
+	({ default: GithubService } = await import("src/github"));
+	await server.start();
+});
+afterAll(() => server.stop());
+beforeEach(() => {
+	service = new GithubService({
+		settings: {
+			redactSecrets: true,
+			secretKeyPatterns: DEFAULT_SECRET_KEY_PATTERNS,
+			secretValuePatterns: DEFAULT_SECRET_VALUE_PATTERNS,
+			redactionPlaceholder: "<redacted>",
+		},
+		cache: { responses: {} },
+	} as unknown as DockerToObsiPlugin);
+});
+
+describe("proposeStackChange", () => {
+	it("opens a pull request with the redacted secrets restored", async () => {
+		server.reset(handleGithub());
+
+		const result = await service.proposeStackChange(
+			createStack("github"),
+			edited,
+			"base",
+			"Update web",
+			"",
+		);
+
+		expect(result).toEqual({
+			status: "created",
+			url: "https://github.com/owner/repo/pull/1",
+		});
+		const branchRequest = findRequest("POST", "/repos/owner/repo/git/refs");
+		const { ref, sha } = JSON.parse(branchRequest?.body ?? "{}");
+		expect(ref).toStartWith("refs/heads/docker-to-obsi/web-");
+		expect(sha).toBe("commit");
+		const contentRequest = findRequest(
+			"PUT",
+			"/repos/owner/repo/contents/web/compose.yaml",
+		);
+		const body = JSON.parse(contentRequest?.body ?? "{}");
+		expect(decodeBase64(body.content)).toBe(expected);
+		expect(body).toMatchObject({ sha: "base", branch: ref.slice(11) });
+	});
+
+	it("refuses changes based on an outdated compose file", async () => {
+		server.reset(handleGithub());
+
+		const result = await service.proposeStackChange(
+			createStack("github"),
+			edited,
+			"outdated",
+			"Update web",
+			"",
+		);
+
+		expect(result).toEqual({ status: "conflict" });
+		expect(server.requests.every((request) => request.method === "GET")).toBe(
+			true,
+		);
+	});
+
+	it("does not propose content matching the compose file", async () => {
+		server.reset(handleGithub());
+
+		const result = await service.proposeStackChange(
+			createStack("github"),
+			redacted,
+			"base",
+			"Update web",
+			"",
+		);
+
+		expect(result).toEqual({ status: "unchanged" });
+	});
+
+	it("deletes the branch when the file can not be updated", async () => {
+		server.reset(handleGithub((request) => request.method === "PUT"));
+
+		await expect(
+			service.proposeStackChange(
+				createStack("github"),
+				edited,
+				"base",
+				"Update web",
+				"",
+			),
+		).rejects.toThrow("Failed to PUT");
+
+		const ref = JSON.parse(
+			findRequest("POST", "/repos/owner/repo/git/refs")?.body ?? "{}",
+		).ref;
+		expect(
+			findRequest("DELETE", "/repos/owner/repo/git/refs/heads/")?.path,
+		).toBe(`/repos/owner/repo/git/${ref}`);
+		expect(findRequest("POST", "/repos/owner/repo/pulls")).toBeUndefined();
+	});
+
+	it("reports the branch when it can not be deleted", async () => {
+		server.reset(
+			handleGithub(
+				(request) => request.method === "PUT" || request.method === "DELETE",
+			),
+		);
+
+		const error = await service
+			.proposeStackChange(
+				createStack("github"),
+				edited,
+				"base",
+				"Update web",
+				"",
+			)
+			.catch((error) => error);
+
+		expect(error).toBeInstanceOf(LeftoverBranchError);
+		expect(error.branch).toStartWith("docker-to-obsi/web-");
+	});
+
+	it("deletes the Gitea branch when the pull request can not be opened", async () => {
+		server.reset((request) => {
+			const route = `${request.method} ${request.path.split("?")[0]}`;
+			if (route === "GET /api/v1/repos/owner/repo/git/trees/main") {
+				return {
+					body: {
+						tree: [{ path: "web/compose.yaml", sha: "base", type: "blob" }],
+						truncated: false,
+						page: 1,
+					},
+				};
+			}
+			if (route === "GET /api/v1/repos/owner/repo/git/blobs/base") {
+				return { body: { content: Buffer.from(original).toString("base64") } };
+			}
+			if (route === "POST /api/v1/repos/owner/repo/pulls") {
+				return { status: 409, body: { message: "Conflict" } };
+			}
+			return request.method === "DELETE"
+				? { status: 204 }
+				: { status: 201, body: {} };
+		});
+
+		await expect(
+			service.proposeStackChange(
+				createStack("gitea"),
+				edited,
+				"base",
+				"Update web",
+				"",
+			),
+		).rejects.toThrow("Failed to POST");
+
+		const body = JSON.parse(
+			findRequest("PUT", "/api/v1/repos/owner/repo/contents/web/compose.yaml")
+				?.body ?? "{}",
+		);
+		expect(decodeBase64(body.content)).toBe(expected);
+		expect(
+			findRequest("DELETE", "/api/v1/repos/owner/repo/branches/")?.path,
+		).toBe(
+			`/api/v1/repos/owner/repo/branches/${encodeURIComponent(body.new_branch)}`,
+		);
+	});
+
+	it("deletes the GitLab branch when the merge request can not be opened", async () => {
+		server.reset(
+			handleGitlab(
+				(request) =>
+					request.method === "POST" &&
+					request.path === `${gitlabProjectPath}/merge_requests`,
+			),
+		);
+
+		await expect(
+			service.proposeStackChange(
+				createStack("gitlab"),
+				edited,
+				"base",
+				"Update web",
+				"",
+			),
+		).rejects.toThrow("Failed to POST");
+
+		const body = JSON.parse(
+			findRequest("POST", `${gitlabProjectPath}/repository/commits`)?.body ??
+				"{}",
+		);
+		expect(body.actions[0]).toMatchObject({
+			content: expected,
+			last_commit_id: "last",
+		});
+		expect(
+			findRequest("DELETE", `${gitlabProjectPath}/repository/branches/`)?.path,
+		).toBe(
+			`${gitlabProjectPath}/repository/branches/${encodeURIComponent(body.branch)}`,
+		);
+	});
+
+	it("reports a conflict when GitLab rejects the last commit of the file", async () => {
+		server.reset(
+			handleGitlab(
+				(request) =>
+					request.method === "POST" &&
+					request.path === `${gitlabProjectPath}/repository/commits`,
+				400,
+			),
+		);
+
+		const result = await service.proposeStackChange(
+			createStack("gitlab"),
+			edited,
+			"base",
+			"Update web",
+			"",
+		);
+
+		expect(result).toEqual({ status: "conflict" });
+		expect(
+			findRequest("POST", `${gitlabProjectPath}/merge_requests`),
+		).toBeUndefined();
+	});
+
+	it("refuses to propose changes against a ref that is not a branch", async () => {
+		server.reset(
+			handleGithub(
+				(request) => request.path === "/repos/owner/repo/branches/main",
+				404,
+			),
+		);
+
+		await expect(
+			service.proposeStackChange(
+				createStack("github"),
+				edited,
+				"base",
+				"Update web",
+				"",
+			),
+		).rejects.toThrow("main is not a branch of owner/repo");
+		expect(server.requests.some((request) => request.method !== "GET")).toBe(
+			false,
+		);
+	});
+});
@@ -1,91 +1,770 @@
+import { stringifyYaml } from "obsidian";
+import { posix } from "path";
+import AIService from "src/ai";
+import {
+	type ComposeModel,
+	getComposeReferences,
+	mergeComposeValues,
+	parseComposeDocument,
+	parseComposeYaml,
+	type RawObject,
+	resolveComposeExtends,
+} from "src/compose";
+import { type EnvVariable, getEnvVariables } from "src/env";
+import {
+	compileRedactionRules,
+	type Redaction,
+	type RedactionRules,
+	redactSecrets,
+	redactValue,
+	restoreSecrets,
+} from "src/redact";
 import type DockerToObsiPlugin from "src/main";
+import { createProvider, type ProviderType } from "src/providers";
+import type GitProvider from "src/providers/provider";
+import {
+	ChangeConflictError,
+	type CommitInfo,
+	type RepositoryFile,
+} from "src/providers/provider";
+import { getGitBlobSha, globToRegExp, mapWithConcurrency } from "src/utils";
+
+export type RepositorySource = {
+	id: string;
+	provider: ProviderType;
+	/** API or instance URL, empty to use the provider default. */
+	baseUrl: string;
+	owner: string;
+	repo: string;
+	/** Branch, tag or commit SHA to read files from. */
+	ref: string;
+	/** Optional sub-path inside the repository to restrict discovery to. */
+	path: string;
+	token: string;
+	/** Directory on disk, for local sources. */
+	directory: string;
+};
+
+/**
+ * How a file relates to the stack: compose override next to it, file pulled in with
+ * `include:` or `extends:`, `env_file:` of a service, or example env file next to it.
+ */
+export type StackFileKind =
+	"override" | "include" | "extends" | "env" | "example";
+
+/**
+ * A file belonging to a stack besides its main compose file.
+ */
+export type StackFile = {
+	/** Path of the file inside its repository. */
+	path: string;
+	/** Path relative to the folder of the main compose file, used as code block title. */
+	relativePath: string;
+	content: string;
+	sha: string;
+	kind: StackFileKind;
+};
 
 export type DockerStackFile = {
 	name: string;
 	content: string;
+	/** Path of the compose file inside its repository. */
+	path: string;
+	/** Git blob SHA of the compose file. */
+	sha: string;
+	source: RepositorySource;
+	/** URL of the compose file in the web interface of the provider. */
+	url: string;
+	/** Override, included, extended and env files of the stack. */
+	files: StackFile[];
+	/** Parsed compose model of all compose files merged, undefined when parsing failed. */
+	compose?: ComposeModel;
+	/** All compose files of the stack merged into a single YAML document. */
+	resolvedContent?: string;
+	parseError?: string;
+	/** Variables interpolated in the compose files, with their documentation. */
+	variables: EnvVariable[];
+	/** Secret values masked in the stack files, see {@link redactSecrets}. */
+	redactions: StackRedaction[];
+	/** Latest commits touching the compose file, newest first. Empty unless fetched. */
+	commits: CommitInfo[];
+};
+
+export type StackRedaction = Redaction & {
+	/** Path of the file the value was masked in. */
+	path: string;
+};
+
+/**
+ * Whether a file of a stack is a compose file, as opposed to an env file.
+ */
+export function isComposeFile(file: StackFile): boolean {
+	return file.kind !== "env" && file.kind !== "example";
+}
+
+/**
+ * Returns a short human readable label for a source, e.g. "owner/repo@main".
+ */
+export function getSourceLabel(source: RepositorySource): string {
+	const path = source.path ? `:${source.path}` : "";
+	if (source.provider === "local") {
+		return `${source.directory}${path}`;
+	}
+	return `${source.owner}/${source.repo}@${source.ref}${path}`;
+}
+
+/**
+ * Result of proposing the edited compose file of a stack. A conflict means the file changed
+ * in the repository since the edit was based on it.
+ */
+export type ChangeProposalResult =
+	| { status: "created"; url: string }
+	| { status: "conflict" }
+	| { status: "unchanged" };
+
+/**
+ * A source that could not be fetched, with the reason.
+ */
+export type SourceFetchError = {
+	source: RepositorySource;
+	message: string;
+};
+
+/**
+ * Stacks of the sources that could be fetched, and the sources that failed.
+ */
+export type StackFetchResult = {
+	stacks: DockerStackFile[];
+	failedSources: SourceFetchError[];
+};
+
+function getCommitCacheKey(stack: DockerStackFile, limit: number): string {
+	return `${stack.url}@${stack.sha}:${limit}`;
+}
+
+/**
+ * Whether the source has enough settings filled in to be fetched.
+ */
+export function isSourceConfigured(source: RepositorySource): boolean {
+	if (source.provider === "local") {
+		return !!source.directory;
+	}
+	return !!(source.owner && source.repo);
+}
+
+export type StackNamingRule = "lastDirectory" | "relativePath" | "regex";
+
+export const STACK_NAMING_RULES: Record<StackNamingRule, string> = {
+	lastDirectory: "Last folder name",
+	relativePath: "Full relative path",
+	regex: "Regex capture",
 };
 
+/** Matches file names like "jellyfin.compose.yaml" and captures "jellyfin". */
+const PREFIXED_COMPOSE_FILE_REGEX = /^(.+)\.(?:docker-)?compose\.ya?ml$/;
+
+/**
+ * Derives the stack name of a compose file from its path relative to the source sub-path.
+ * Prefixed files such as "jellyfin.compose.yaml" are named after their prefix, others
+ * after the folder they live in. Files at the root are named after `rootName`.
+ */
+export function deriveStackName(
+	relativePath: string,
+	rule: StackNamingRule,
+	regex: string,
+	rootName: string,
+): string {
+	const segments = relativePath.split("/");
+	const fileName = segments.pop() ?? "";
+	const prefix = fileName.match(PREFIXED_COMPOSE_FILE_REGEX)?.[1];
+	if (prefix) {
+		segments.push(prefix);
+	}
+
+	switch (rule) {
+		case "relativePath":
+			return segments.join("/") || rootName;
+		case "regex": {
+			const match = regex ? relativePath.match(new RegExp(regex)) : null;
+			if (match) {
+				return match[1] ?? match[0];
+			}
+			console.warn(
+				`Stack name regex did not match ${relativePath}, using folder name`,
+			);
+			return segments.pop() || rootName;
+		}
+		default:
+			return segments.pop() || rootName;
+	}
+}
+
+/**
+ * Returns the names shared by more than one stack, along with the colliding stacks.
+ */
+export function findDuplicateStacks(
+	stacks: DockerStackFile[],
+): Map<string, DockerStackFile[]> {
+	const stacksByName = new Map<string, DockerStackFile[]>();
+	for (const stack of stacks) {
+		stacksByName.set(stack.name, [
+			...(stacksByName.get(stack.name) ?? []),
+			stack,
+		]);
+	}
+
+	const duplicates = new Map<string, DockerStackFile[]>();
+	for (const [name, namedStacks] of stacksByName) {
+		if (namedStacks.length > 1) {
+			duplicates.set(name, namedStacks);
+		}
+	}
+	return duplicates;
+}
+
+/** Matches override files applied on top of a compose file, e.g. "compose.override.yaml". */
+const OVERRIDE_FILE_REGEX = /^(?:docker-)?compose\.override\.ya?ml$/;
+
+/** Matches example env files documenting the variables of a stack, e.g. ".env.example". */
+const ENV_EXAMPLE_FILE_REGEX = /^\.env\.(?:example|sample)$/;
+
+/** Maximum depth of nested includes and extends followed when fetching a stack. */
+const MAX_REFERENCE_DEPTH = 5;
+
+/** Maximum number of file requests running at the same time. */
+const MAX_CONCURRENT_REQUESTS = 6;
+
 export default class GithubService {
 	private readonly plugin: DockerToObsiPlugin;
+	/**
+	 * Raw file contents keyed by git blob SHA. They may hold secrets, so they are only kept
+	 * in memory and never saved with the plugin data.
+	 */
+	private readonly blobs = new Map<string, string>();
 
 	constructor(plugin: DockerToObsiPlugin) {
 		this.plugin = plugin;
 	}
 
-	async fetchGithubFileContent(filePath: string): Promise<string> {
-		const { ghUsername, ghRepository, ghToken } = this.plugin.settings;
-		const url = `https://api.github.com/repos/${ghUsername}/${ghRepository}/contents/${filePath}?ref=main`;
-		const res = await fetch(url, {
-			headers: {
-				Accept: "application/vnd.github.v3.raw",
-				Authorization: `token ${ghToken}`,
-			},
-		});
-		if (!res.ok) {
-			throw new Error(`Failed to fetch file: ${res.status} ${res.statusText}`);
+	/**
+	 * Fetches the content of a file by its blob SHA. Blobs are immutable, so once
+	 * fetched they are served from memory until the plugin is reloaded. Files without a
+	 * known SHA (local files) are always read directly.
+	 */
+	async fetchFileContent(
+		provider: GitProvider,
+		file: RepositoryFile,
+	): Promise<string> {
+		if (!file.sha) {
+			return await provider.fetchFileContent(file);
+		}
+
+		const cached = this.blobs.get(file.sha);
+		if (cached !== undefined) {
+			return cached;
 		}
-		return await res.text();
+
+		const content = await provider.fetchFileContent(file);
+		this.blobs.set(file.sha, content);
+		return content;
 	}
 
 	/**
-	 * Recursively fetches all files in the repo that match "compose.yaml" in their name.
+	 * Keeps the files of the source matching one of the configured compose file patterns.
+	 * Patterns are matched against paths relative to the source sub-path. Override files
+	 * belong to the stack next to them and are never stacks of their own.
 	 */
-	async fetchComposeYamlFiles(path = ""): Promise<string[]> {
-		const { ghUsername, ghRepository, ghToken } = this.plugin.settings;
-		const url = `https://api.github.com/repos/${ghUsername}/${ghRepository}/contents/${path}?ref=main`;
-		const res = await fetch(url, {
-			headers: {
-				Accept: "application/vnd.github.v3+json",
-				Authorization: `token ${ghToken}`,
+	filterComposeYamlFiles(
+		source: RepositorySource,
+		files: RepositoryFile[],
+	): RepositoryFile[] {
+		const prefix = source.path ? `${source.path}/` : "";
+		const patterns = this.plugin.settings.composeFilePatterns.map(globToRegExp);
+
+		return files.filter(
+			(file) =>
+				file.path.startsWith(prefix) &&
+				!OVERRIDE_FILE_REGEX.test(posix.basename(file.path)) &&
+				patterns.some((pattern) =>
+					pattern.test(file.path.slice(prefix.length)),
+				),
+		);
+	}
+
+	/**
+	 * Fetch all compose files of a single source and return as DockerStackFile objects.
+	 * URLs of the listing responses are added to `responseUrls`.
+	 */
+	async fetchSourceComposeStackFiles(
+		source: RepositorySource,
+		responseUrls = new Set<string>(),
+	): Promise<DockerStackFile[]> {
+		const provider = createProvider(this.plugin, source);
+		const allFiles = await provider.listFiles();
+		provider.cachedUrls.forEach((url) => responseUrls.add(url));
+		const files = this.filterComposeYamlFiles(source, allFiles);
+		const { stackNaming, stackNameRegex } = this.plugin.settings;
+		const prefix = source.path ? `${source.path}/` : "";
+		const rootName =
+			(source.path || source.repo || source.directory)
+				.split(/[\\/]/)
+				.filter((segment) => segment)
+				.pop() || "__unknown__";
+
+		const rules = this.getRedactionRules();
+
+		return await mapWithConcurrency(
+			files,
+			MAX_CONCURRENT_REQUESTS,
+			async (file) => {
+				const content = await this.fetchFileContent(provider, file);
+				const stack: DockerStackFile = {
+					name: deriveStackName(
+						file.path.slice(prefix.length),
+						stackNaming,
+						stackNameRegex,
+						rootName,
+					),
+					content,
+					path: file.path,
+					sha: file.sha || getGitBlobSha(content),
+					source,
+					url: provider.getFileUrl(file.path),
+					files: [],
+					variables: [],
+					redactions: [],
+					commits: [],
+				};
+				if (rules) {
+					stack.content = this.redactFile(stack, stack.path, content, rules);
+				}
+
+				try {
+					stack.files = await this.fetchStackFiles(provider, stack, allFiles);
+					if (rules) {
+						for (const stackFile of stack.files) {
+							stackFile.content = this.redactFile(
+								stack,
+								stackFile.path,
+								stackFile.content,
+								rules,
+							);
+						}
+					}
+					this.resolveStackCompose(stack);
+				} catch (error) {
+					stack.parseError =
+						error instanceof Error ? error.message : String(error);
+				}
+				stack.variables = this.getStackVariables(stack, rules);
+				stack.commits = await this.fetchStackCommits(provider, stack);
+				return stack;
 			},
+		);
+	}
+
+	/**
+	 * Fetches the latest commits touching the compose file of a stack when enabled. Commits
+	 * are cached by blob SHA, since a commit changing the file also changes its SHA. Failures
+	 * are logged and leave the stack without commits.
+	 */
+	private async fetchStackCommits(
+		provider: GitProvider,
+		stack: DockerStackFile,
+	): Promise<CommitInfo[]> {
+		const { fetchCommits, recentCommitsCount } = this.plugin.settings;
+		if (!fetchCommits) {
+			return [];
+		}
+
+		const limit = Math.max(1, recentCommitsCount);
+		const key = getCommitCacheKey(stack, limit);
+		const cached = this.plugin.cache.commits[key];
+		if (cached) {
+			return cached;
+		}
+
+		try {
+			const commits = await provider.fetchCommits(stack.path, limit);
+			this.plugin.cache.commits[key] = commits;
+			return commits;
+		} catch (error) {
+			console.warn(`Failed to fetch commits of ${stack.path}:`, error);
+			return [];
+		}
+	}
+
+	/**
+	 * Returns the compiled secret redaction rules, or null when redaction is disabled.
+	 */
+	private getRedactionRules(): RedactionRules | null {
+		const {
+			redactSecrets,
+			secretKeyPatterns,
+			secretValuePatterns,
+			redactionPlaceholder,
+		} = this.plugin.settings;
+		if (!redactSecrets) {
+			return null;
+		}
+		return compileRedactionRules({
+			keyPatterns: secretKeyPatterns,
+			valuePatterns: secretValuePatterns,
+			placeholder: redactionPlaceholder,
 		});
-		if (!res.ok) {
-			throw new Error(
-				`Failed to list directory: ${res.status} ${res.statusText}`,
+	}
+
+	/**
+	 * Masks the secrets of a file of the stack and records what was masked on the stack.
+	 */
+	private redactFile(
+		stack: DockerStackFile,
+		path: string,
+		content: string,
+		rules: RedactionRules,
+	): string {
+		const result = redactSecrets(content, rules);
+		stack.redactions.push(
+			...result.redactions.map((redaction) => ({ ...redaction, path })),
+		);
+		return result.content;
+	}
+
+	/**
+	 * Fetches the override files next to the compose file of a stack, and the files it
+	 * references through `include`, `extends` and `env_file`, following nested references.
+	 */
+	private async fetchStackFiles(
+		provider: GitProvider,
+		stack: DockerStackFile,
+		allFiles: RepositoryFile[],
+	): Promise<StackFile[]> {
+		const stackDirectory = posix.dirname(stack.path);
+		const filesByPath = new Map(allFiles.map((file) => [file.path, file]));
+		const stackFiles: StackFile[] = [];
+		const visited = new Set([stack.path]);
+
+		const addFile = async (path: string, kind: StackFileKind) => {
+			const file = filesByPath.get(path);
+			if (!file || visited.has(path)) {
+				return null;
+			}
+			visited.add(path);
+
+			const content = await this.fetchFileContent(provider, file);
+			const stackFile: StackFile = {
+				path,
+				relativePath: posix.relative(stackDirectory, path),
+				content,
+				sha: file.sha || getGitBlobSha(content),
+				kind,
+			};
+			stackFiles.push(stackFile);
+			return stackFile;
+		};
+
+		const followReferences = async (
+			path: string,
+			content: string,
+			depth: number,
+		) => {
+			if (depth > MAX_REFERENCE_DEPTH) {
+				return;
+			}
+
+			const references = getComposeReferences(parseComposeYaml(content));
+			const resolve = (reference: string) =>
+				posix.normalize(posix.join(posix.dirname(path), reference));
+
+			for (const reference of references.envFiles) {
+				await addFile(resolve(reference), "env");
+			}
+			for (const [kind, paths] of [
+				["include", references.includes],
+				["extends", references.extends],
+			] as [StackFileKind, string[]][]) {
+				for (const reference of paths) {
+					const referencedPath = resolve(reference);
+					if (!filesByPath.has(referencedPath)) {
+						console.warn(
+							`File ${referencedPath} referenced by ${path} not found in ${getSourceLabel(stack.source)}`,
+						);
+						continue;
+					}
+					const stackFile = await addFile(referencedPath, kind);
+					if (stackFile) {
+						await followReferences(
+							stackFile.path,
+							stackFile.content,
+							depth + 1,
+						);
+					}
+				}
+			}
+		};
+
+		await followReferences(stack.path, stack.content, 0);
+
+		const overrides = allFiles.filter(
+			(file) =>
+				posix.dirname(file.path) === stackDirectory &&
+				OVERRIDE_FILE_REGEX.test(posix.basename(file.path)),
+		);
+		for (const override of overrides) {
+			const stackFile = await addFile(override.path, "override");
+			if (stackFile) {
+				await followReferences(stackFile.path, stackFile.content, 1);
+			}
+		}
+
+		const examples = allFiles.filter(
+			(file) =>
+				posix.dirname(file.path) === stackDirectory &&
+				ENV_EXAMPLE_FILE_REGEX.test(posix.basename(file.path)),
+		);
+		for (const example of examples) {
+			await addFile(example.path, "example");
+		}
+
+		return stackFiles;
+	}
+
+	/**
+	 * Collects the variables interpolated in the compose files of the stack, documented by its
+	 * example env file. Defaults of secret variables are masked like other secret values.
+	 */
+	private getStackVariables(
+		stack: DockerStackFile,
+		rules: RedactionRules | null,
+	): EnvVariable[] {
+		const composeContents = [
+			stack.content,
+			...stack.files
+				.filter((file) => isComposeFile(file))
+				.map((file) => file.content),
+		];
+		const example = stack.files.find((file) => file.kind === "example");
+
+		return getEnvVariables(composeContents, example?.content ?? null).map(
+			(variable) =>
+				rules && variable.defaultValue
+					? {
+							...variable,
+							defaultValue: redactValue(
+								variable.name,
+								variable.defaultValue,
+								rules,
+							),
+						}
+					: variable,
+		);
+	}
+
+	/**
+	 * Merges the included files, the main compose file and its overrides, then parses the
+	 * result into the compose model of the stack.
+	 */
+	private resolveStackCompose(stack: DockerStackFile) {
+		const documents = new Map<string, RawObject>();
+		for (const file of stack.files) {
+			if (isComposeFile(file)) {
+				documents.set(file.relativePath, parseComposeYaml(file.content));
+			}
+		}
+
+		const getDocuments = (kind: StackFileKind) =>
+			stack.files
+				.filter((file) => file.kind === kind)
+				.map((file) => documents.get(file.relativePath) as RawObject);
+
+		const merged = [
+			...getDocuments("include"),
+			parseComposeYaml(stack.content),
+			...getDocuments("override"),
+		].reduce<RawObject>(
+			(result, document) => mergeComposeValues(result, document) as RawObject,
+			{},
+		);
+		const resolved = resolveComposeExtends(merged, documents);
+
+		stack.compose = parseComposeDocument(resolved);
+		stack.resolvedContent = stringifyYaml(resolved);
+	}
+
+	/**
+	 * Proposes new content for the main compose file of a stack as a pull request on a new
+	 * branch. Nothing is pushed when the file no longer has the blob SHA the content is based
+	 * on, and a conflict is also returned when the provider rejects the change because the
+	 * file changed meanwhile. Redacted secrets are restored from the file first, and its line endings are kept.
+	 */
+	async proposeStackChange(
+		stack: DockerStackFile,
+		content: string,
+		baseSha: string,
+		title: string,
+		body: string,
+	): Promise<ChangeProposalResult> {
+		const provider = createProvider(this.plugin, stack.source);
+		const file = (await provider.listFiles()).find(
+			(file) => file.path === stack.path,
+		);
+		if (!file) {
+			throw new Error(`${stack.path} no longer exists in the repository`);
+		}
+		if (file.sha !== baseSha) {
+			return { status: "conflict" };
+		}
+
+		const original = await this.fetchFileContent(provider, file);
+		const originalText = original.replace(/\r\n/g, "\n");
+		const rules = this.getRedactionRules();
+		const restored = rules
+			? restoreSecrets(content, originalText, rules)
+			: content;
+		const newContent =
+			`${restored.replace(/\r\n/g, "\n").trim()}${originalText.endsWith("\n") ? "\n" : ""}`.replace(
+				/\n/g,
+				original.includes("\r\n") ? "\r\n" : "\n",
 			);
+		if (newContent === original) {
+			return { status: "unchanged" };
 		}
-		const items = await res.json();
-		const directories: string[] = [];
-		let files: string[] = [];
 
-		for (const item of items) {
-			if (item.type === "file" && item.name.includes("compose.yaml")) {
-				files.push(item.path);
-			} else if (item.type === "dir") {
-				directories.push(item.path);
+		const branchName = stack.name.toLowerCase().replace(/[^a-z0-9._-]+/g, "-");
+		try {
+			const url = await provider.proposeChange({
+				path: stack.path,
+				content: newContent,
+				sha: file.sha,
+				branch: `docker-to-obsi/${branchName}-${Date.now().toString(36)}`,
+				title,
+				body,
+			});
+			return { status: "created", url };
+		} catch (error) {
+			// The file changed between the listing above and the commit
+			if (error instanceof ChangeConflictError) {
+				return { status: "conflict" };
 			}
+			throw error;
 		}
+	}
 
-		// Process all directories in parallel
-		if (directories.length > 0) {
-			const subFileResults = await Promise.all(
-				directories.map((dir) => this.fetchComposeYamlFiles(dir)),
+	/**
+	 * Fetch all compose files across every configured source. A failing source does not stop
+	 * the others: it is left out of the stacks and listed in `failedSources`. Throws only when
+	 * every source failed.
+	 */
+	async fetchAllComposeStackFiles(): Promise<StackFetchResult> {
+		const sources = this.plugin.settings.sources.filter(isSourceConfigured);
+		const responseUrls = new Set<string>();
+
+		try {
+			const results = await Promise.all(
+				sources.map(
+					async (source): Promise<DockerStackFile[] | SourceFetchError> => {
+						try {
+							return await this.fetchSourceComposeStackFiles(
+								source,
+								responseUrls,
+							);
+						} catch (error) {
+							return {
+								source,
+								message: `Failed to fetch stacks from ${getSourceLabel(source)}: ${error instanceof Error ? error.message : error}`,
+							};
+						}
+					},
+				),
 			);
+			const stacks: DockerStackFile[] = [];
+			const failedSources: SourceFetchError[] = [];
+			for (const result of results) {
+				if (Array.isArray(result)) {
+					stacks.push(...result);
+				} else {
+					failedSources.push(result);
+				}
+			}
 
-			// Flatten the results
-			for (const subFiles of subFileResults) {
-				files = files.concat(subFiles);
+			if (failedSources.length > 0 && failedSources.length === sources.length) {
+				throw new Error(
+					failedSources.map((failure) => failure.message).join("\n"),
+				);
 			}
+
+			// Cache entries of failed sources are still needed on their next fetch
+			if (failedSources.length === 0) {
+				this.pruneResponseCache(responseUrls);
+				this.pruneBlobCache(stacks);
+				this.pruneCommitCache(stacks);
+				this.pruneInsightCache(stacks);
+			}
+			return { stacks, failedSources };
+		} finally {
+			await this.plugin.saveCache();
 		}
+	}
 
-		return files;
+	/**
+	 * Drops cached responses of listings that were not requested during this run.
+	 */
+	private pruneResponseCache(responseUrls: Set<string>) {
+		for (const url of Object.keys(this.plugin.cache.responses)) {
+			if (!responseUrls.has(url)) {
+				delete this.plugin.cache.responses[url];
+			}
+		}
 	}
 
 	/**
-	 * Fetch all compose.yaml files in the repo and return as DockerStackFile objects.
+	 * Drops cached blobs that are no longer referenced by any stack.
 	 */
-	async fetchAllComposeStackFiles(): Promise<DockerStackFile[]> {
-		const filePaths = await this.fetchComposeYamlFiles();
+	private pruneBlobCache(stacks: DockerStackFile[]) {
+		const usedShas = new Set(
+			stacks.reduce<string[]>(
+				(shas, stack) =>
+					shas.concat(
+						stack.sha,
+						stack.files.map((file) => file.sha),
+					),
+				[],
+			),
+		);
+		for (const sha of Array.from(this.blobs.keys())) {
+			if (!usedShas.has(sha)) {
+				this.blobs.delete(sha);
+			}
+		}
+	}
 
-		const contentPromises = filePaths.map(async (path) => {
-			const content = await this.fetchGithubFileContent(path);
-			return {
-				name:
-					path.replace("/compose.yaml", "").split("/").pop() || "__unknown__",
-				content,
-			};
-		});
+	/**
+	 * Drops cached commits of compose files that changed or are no longer stacks.
+	 */
+	private pruneCommitCache(stacks: DockerStackFile[]) {
+		const limit = Math.max(1, this.plugin.settings.recentCommitsCount);
+		const usedKeys = new Set(
+			stacks.map((stack) => getCommitCacheKey(stack, limit)),
+		);
+		for (const key of Object.keys(this.plugin.cache.commits)) {
+			if (!usedKeys.has(key)) {
+				delete this.plugin.cache.commits[key];
+			}
+		}
+	}
 
-		return await Promise.all(contentPromises);
+	/**
+	 * Drops generated insights that no stack would be served with the current AI settings.
+	 */
+	private pruneInsightCache(stacks: DockerStackFile[]) {
+		const aiService = new AIService(this.plugin);
+		const usedKeys = new Set(
+			stacks.map((stack) => aiService.getCacheKey(stack)),
+		);
+		for (const key of Object.keys(this.plugin.cache.aiInsights)) {
+			if (!usedKeys.has(key)) {
+				delete this.plugin.cache.aiInsights[key];
+			}
+		}
 	}
 }
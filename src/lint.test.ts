@@ -0,0 +1,154 @@
+import { beforeAll, describe, expect, it, mock } from "bun:test";
+import type { ComposeService } from "src/compose";
+import type { DockerStackFile, RepositorySource } from "src/github";
+import {
+	compileRedactionRules,
+	DEFAULT_SECRET_KEY_PATTERNS,
+	DEFAULT_SECRET_VALUE_PATTERNS,
+} from "src/redact";
+import { createObsidianModule } from "test/obsidian";
+
+mock.module("obsidian", createObsidianModule);
+let lintStacks: typeof import("src/lint").lintStacks;
+
+const secretRules = compileRedactionRules({
+	keyPatterns: DEFAULT_SECRET_KEY_PATTERNS,
+	valuePatterns: DEFAULT_SECRET_VALUE_PATTERNS,
+	placeholder: "<redacted>",
+});
+const rules = {
+	duplicateHostPort: true,
+	latestImage: false,
+	missingRestart: false,
+	privileged: false,
+	dockerSocket: false,
+	hardcodedSecret: true,
+};
+
+function createSource(id: string): RepositorySource {
+	return {
+		id,
+		provider: "github",
+		baseUrl: "",
+		owner: "owner",
+		repo: id,
+		ref: "main",
+		path: "",
+		token: "",
+		directory: "",
+	};
+}
+
+function createStack(
+	name: string,
+	source: RepositorySource,
+	published?: string,
+): DockerStackFile {
+	const service: ComposeService = {
+		name: "app",
+		ports: published ? [{ published, target: "80", protocol: "tcp" }] : [],
+		volumes: [],
+		networks: [],
+		environment: [],
+		labels: {},
+		dependsOn: [],
+		restart: "always",
+		privileged: false,
+	};
+	return {
+		name,
+		content: "services:\n  app: {}\n",
+		path: `${name}/compose.yaml`,
+		sha: name,
+		source,
+		url: "",
+		files: [],
+		compose: { services: [service], networks: [], volumes: [] },
+		variables: [],
+		redactions: [],
+		commits: [],
+	};
+}
+
+beforeAll(async () => {
+	({ lintStacks } = await import("src/lint"));
+});
+
+describe("lintStacks", () => {
+	it("reports host ports published twice on the same source", () => {
+		const source = createSource("home");
+		const stacks = [
+			createStack("web", source, "8080"),
+			createStack("api", source, "8080"),
+		];
+
+		const findings = lintStacks(stacks, rules, secretRules);
+
+		expect(findings.map((finding) => finding.stack.name)).toEqual([
+			"web",
+			"api",
+		]);
+		expect(findings[0].related.map(({ stack }) => stack.name)).toEqual(["api"]);
+	});
+
+	it("allows the same host port on different sources", () => {
+		const stacks = [
+			createStack("web", createSource("home"), "8080"),
+			createStack("web", createSource("office"), "8080"),
+		];
+
+		expect(lintStacks(stacks, rules, secretRules)).toEqual([]);
+	});
+
+	it("reports literal defaults of secret interpolations", () => {
+		const stack = createStack("web", createSource("home"));
+		stack.content = [
+			"services:",
+			"  app:",
+			"    environment:",
+			"      DB_PASSWORD: ${DB_PASSWORD:-hunter2}",
+			"      API_TOKEN: ${API_TOKEN}",
+		].join("\n");
+
+		const findings = lintStacks([stack], rules, secretRules);
+
+		expect(findings.map((finding) => finding.message)).toEqual([
+			"`DB_PASSWORD` in web/compose.yaml:4",
+		]);
+	});
+
+	it("skips secrets of example env files", () => {
+		const stack = createStack("web", createSource("home"));
+		stack.files = [
+			{
+				path: "web/.env",
+				relativePath: ".env",
+				content: "DB_PASSWORD=<redacted>\n",
+				sha: "env",
+				kind: "env",
+			},
+			{
+				path: "web/.env.example",
+				relativePath: ".env.example",
+				content: "DB_PASSWORD=<redacted>\nAPI_TOKEN=changeme\n",
+				sha: "example",
+				kind: "example",
+			},
+		];
+		stack.redactions = [
+			{ key: "DB_PASSWORD", line: 1, reason: "key", path: "web/.env" },
+			{
+				key: "DB_PASSWORD",
+				line: 1,
+				reason: "key",
+				path: "web/.env.example",
+			},
+		];
+
+		const findings = lintStacks([stack], rules, secretRules);
+
+		expect(findings.map((finding) => finding.message)).toEqual([
+			"`DB_PASSWORD` in web/.env:1",
+		]);
+	});
+});
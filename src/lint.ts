@@ -0,0 +1,366 @@
+import { TFile } from "obsidian";
+import { type ComposePort, parseImage } from "src/compose";
+import type { DockerStackFile } from "src/github";
+import type DockerToObsiPlugin from "src/main";
+import {
+	hasManagedRegion,
+	renderTable,
+	replaceManagedRegion,
+	wrapManagedRegion,
+} from "src/markdown";
+import type { StackNote } from "src/obsidian";
+import { type RedactionRules, redactSecrets } from "src/redact";
+
+export type LintRule =
+	| "duplicateHostPort"
+	| "latestImage"
+	| "missingRestart"
+	| "privileged"
+	| "dockerSocket"
+	| "hardcodedSecret";
+
+export const LINT_RULES: Record<LintRule, string> = {
+	duplicateHostPort: "Duplicate host ports",
+	latestImage: "Latest or untagged images",
+	missingRestart: "Missing restart policy",
+	privileged: "Privileged services",
+	dockerSocket: "Docker socket mounts",
+	hardcodedSecret: "Hardcoded secrets",
+};
+
+export type LintLocation = {
+	stack: DockerStackFile;
+	/** Service name, undefined for findings about a whole file, e.g. secrets. */
+	service?: string;
+};
+
+export type LintFinding = LintLocation & {
+	rule: LintRule;
+	message: string;
+	/** Other services involved, e.g. the other services publishing the same port. */
+	related: LintLocation[];
+};
+
+type PublishedPort = LintLocation & {
+	hostIp?: string;
+	protocol: string;
+	start: number;
+	end: number;
+	label: string;
+};
+
+const DOCKER_SOCKET_REGEX = /\/docker\.sock$/;
+
+const WILDCARD_HOST_IPS = ["0.0.0.0", "::"];
+
+const REPORT_REGION = "audit";
+
+/**
+ * Replaces `${VAR:-default}` and `${VAR-default}` interpolations by their default, so the
+ * usual values of ports and image tags can be checked.
+ */
+function resolveDefaults(value: string): string {
+	return value.replace(
+		/\$\{[A-Za-z_][A-Za-z0-9_]*:?-([^{}]*)\}/g,
+		(_match, defaultValue: string) => defaultValue,
+	);
+}
+
+function parsePublishedPort(
+	port: ComposePort,
+	location: LintLocation,
+): PublishedPort | null {
+	const match = resolveDefaults(port.published ?? "").match(
+		/^(\d+)(?:-(\d+))?$/,
+	);
+	if (!match) {
+		return null;
+	}
+	const start = Number(match[1]);
+	const end = match[2] ? Number(match[2]) : start;
+	return {
+		...location,
+		hostIp: port.hostIp && resolveDefaults(port.hostIp),
+		protocol: port.protocol,
+		start,
+		end,
+		label: `${match[0]}/${port.protocol}`,
+	};
+}
+
+function isWildcardHostIp(hostIp?: string): boolean {
+	return !hostIp || WILDCARD_HOST_IPS.includes(hostIp);
+}
+
+/**
+ * Whether two published ports can not be bound at the same time. Ports bound to different
+ * addresses do not conflict, unless one of them listens on every address.
+ */
+function arePortsConflicting(a: PublishedPort, b: PublishedPort): boolean {
+	return (
+		a.protocol === b.protocol &&
+		a.start <= b.end &&
+		b.start <= a.end &&
+		(isWildcardHostIp(a.hostIp) ||
+			isWildcardHostIp(b.hostIp) ||
+			a.hostIp === b.hostIp)
+	);
+}
+
+function findDuplicateHostPorts(stacks: DockerStackFile[]): LintFinding[] {
+	const ports = stacks.reduce<PublishedPort[]>(
+		(ports, stack) =>
+			ports.concat(
+				...(stack.compose?.services ?? []).map((service) =>
+					service.ports
+						.map((port) =>
+							parsePublishedPort(port, { stack, service: service.name }),
+						)
+						.filter((port): port is PublishedPort => port !== null),
+				),
+			),
+		[],
+	);
+
+	const findings = new Map<string, LintFinding>();
+	for (const port of ports) {
+		// A service may publish a port on both IPv4 and IPv6 addresses, which is reported once
+		const key = `${port.stack.path}:${port.service}:${port.label}`;
+		const related = ports.filter(
+			(other) =>
+				!(other.stack === port.stack && other.service === port.service) &&
+				arePortsConflicting(port, other),
+		);
+		if (related.length === 0 || findings.has(key)) {
+			continue;
+		}
+
+		const locations = new Map<string, LintLocation>();
+		for (const { stack, service } of related) {
+			locations.set(`${stack.path}:${service}`, { stack, service });
+		}
+		findings.set(key, {
+			rule: "duplicateHostPort",
+			stack: port.stack,
+			service: port.service,
+			message: `Host port ${port.label} is also published by`,
+			related: Array.from(locations.values()),
+		});
+	}
+	return Array.from(findings.values());
+}
+
+function lintServices(
+	stack: DockerStackFile,
+	rules: Record<LintRule, boolean>,
+): LintFinding[] {
+	const findings: LintFinding[] = [];
+	const addFinding = (rule: LintRule, service: string, message: string) => {
+		if (rules[rule]) {
+			findings.push({ rule, stack, service, message, related: [] });
+		}
+	};
+
+	for (const service of stack.compose?.services ?? []) {
+		if (service.image) {
+			const image = resolveDefaults(service.image);
+			const { tag } = parseImage(image);
+			if (!tag) {
+				addFinding("latestImage", service.name, `\`${image}\` has no tag`);
+			} else if (tag === "latest") {
+				addFinding("latestImage", service.name, `\`${image}\` uses latest`);
+			}
+		}
+		if (!service.restart) {
+			addFinding("missingRestart", service.name, "No restart policy");
+		}
+		if (service.privileged) {
+			addFinding("privileged", service.name, "Runs privileged");
+		}
+		for (const volume of service.volumes) {
+			if (volume.source && DOCKER_SOCKET_REGEX.test(volume.source)) {
+				addFinding(
+					"dockerSocket",
+					service.name,
+					`Mounts \`${volume.source}\`${volume.readOnly ? " read-only" : ""}`,
+				);
+			}
+		}
+	}
+
+	return findings;
+}
+
+/**
+ * Finds the secrets written in the files of a stack instead of being passed as variables.
+ * Secrets masked on fetch are reported from the redactions of the stack, so this also
+ * works when redaction is disabled. Both use the checks of redaction, so interpolations
+ * are only reported for a literal default, e.g. `${DB_PASSWORD:-hunter2}`.
+ */
+function findHardcodedSecrets(
+	stack: DockerStackFile,
+	secretRules: RedactionRules,
+): LintFinding[] {
+	// Example env files are meant to hold sample values
+	const examplePaths = stack.files
+		.filter((file) => file.kind === "example")
+		.map((file) => file.path);
+	const files = [
+		{ path: stack.path, content: stack.content },
+		...stack.files
+			.filter((file) => !examplePaths.includes(file.path))
+			.map(({ path, content }) => ({ path, content })),
+	];
+	const redactions = stack.redactions
+		.filter((redaction) => !examplePaths.includes(redaction.path))
+		.concat(
+			...files.map(({ path, content }) =>
+				redactSecrets(content, secretRules).redactions.map((redaction) => ({
+					...redaction,
+					path,
+				})),
+			),
+		);
+
+	return redactions.map(({ key, line, path }) => ({
+		rule: "hardcodedSecret",
+		stack,
+		message: `\`${key}\` in ${path}:${line}`,
+		related: [],
+	}));
+}
+
+/**
+ * Checks the stacks against the enabled rules. Stacks that failed to parse are only checked
+ * for hardcoded secrets, and host ports only against stacks of the same source.
+ */
+export function lintStacks(
+	stacks: DockerStackFile[],
+	rules: Record<LintRule, boolean>,
+	secretRules: RedactionRules,
+): LintFinding[] {
+	const findings: LintFinding[] = [];
+	if (rules.duplicateHostPort) {
+		// Sources are separate hosts, so ports only conflict within a source
+		const stacksBySource = new Map<string, DockerStackFile[]>();
+		for (const stack of stacks) {
+			stacksBySource.set(
+				stack.source.id,
+				(stacksBySource.get(stack.source.id) ?? []).concat(stack),
+			);
+		}
+		stacksBySource.forEach((sourceStacks) =>
+			findings.push(...findDuplicateHostPorts(sourceStacks)),
+		);
+	}
+
+	for (const stack of stacks) {
+		findings.push(...lintServices(stack, rules));
+		if (rules.hardcodedSecret) {
+			findings.push(...findHardcodedSecrets(stack, secretRules));
+		}
+	}
+
+	return findings;
+}
+
+/**
+ * Writes lint findings to the audit report note, grouped by rule, with links to the notes of
+ * the affected stacks.
+ */
+export default class AuditService {
+	private readonly plugin: DockerToObsiPlugin;
+
+	constructor(plugin: DockerToObsiPlugin) {
+		this.plugin = plugin;
+	}
+
+	/**
+	 * Creates the report note or updates its managed region, leaving the rest of the note
+	 * untouched. The note is only written when the findings changed.
+	 */
+	async writeReport(
+		findings: LintFinding[],
+		stackNotes: StackNote[],
+	): Promise<TFile> {
+		const path = this.plugin.settings.auditNotePath.trim();
+		if (!path.endsWith(".md")) {
+			throw new Error(`Audit note path must end with .md: ${path}`);
+		}
+
+		const report = this.renderReport(findings, stackNotes, path);
+		const { vault } = this.plugin.app;
+		const existingFile = vault.getAbstractFileByPath(path);
+
+		if (!(existingFile instanceof TFile)) {
+			return await vault.create(
+				path,
+				`# Stack audit\n\n${wrapManagedRegion(REPORT_REGION, report)}\n`,
+			);
+		}
+
+		const content = await vault.read(existingFile);
+		const newContent = hasManagedRegion(content, REPORT_REGION)
+			? replaceManagedRegion(content, REPORT_REGION, report)
+			: `${content.trimEnd()}\n\n${wrapManagedRegion(REPORT_REGION, report)}\n`;
+		if (newContent !== content) {
+			await vault.modify(existingFile, newContent);
+		}
+		return existingFile;
+	}
+
+	private renderReport(
+		findings: LintFinding[],
+		stackNotes: StackNote[],
+		reportPath: string,
+	): string {
+		if (findings.length === 0) {
+			return "_No findings._";
+		}
+
+		const notesByStack = new Map(
+			stackNotes.map((note) => [note.stack, note.file]),
+		);
+		const renderStack = (stack: DockerStackFile) => {
+			const file = notesByStack.get(stack);
+			return file
+				? `[[${this.plugin.app.metadataCache.fileToLinktext(file, reportPath, true)}]]`
+				: stack.name;
+		};
+		const renderLocation = ({ stack, service }: LintLocation) =>
+			service ? `${renderStack(stack)} (${service})` : renderStack(stack);
+
+		const stackCount = new Set(findings.map((finding) => finding.stack)).size;
+		const sections = [
+			`${findings.length} finding${findings.length === 1 ? "" : "s"} in ${stackCount} stack${stackCount === 1 ? "" : "s"}.`,
+		];
+
+		for (const rule of Object.keys(LINT_RULES) as LintRule[]) {
+			const ruleFindings = findings
+				.filter((finding) => finding.rule === rule)
+				.sort(
+					(a, b) =>
+						a.stack.name.localeCompare(b.stack.name) ||
+						(a.service ?? "").localeCompare(b.service ?? ""),
+				);
+			if (ruleFindings.length === 0) {
+				continue;
+			}
+
+			sections.push(
+				`## ${LINT_RULES[rule]}\n\n${renderTable(
+					["Stack", "Service", "Finding"],
+					ruleFindings.map((finding) => [
+						renderStack(finding.stack),
+						finding.service ?? "",
+						finding.related.length > 0
+							? `${finding.message} ${finding.related.map(renderLocation).join(", ")}`
+							: finding.message,
+					]),
+				)}`,
+			);
+		}
+
+		return sections.join("\n\n");
+	}
+}
@@ -2,40 +2,213 @@ import {
 	type App,
 	Plugin,
 	PluginSettingTab,
+	Notice,
 	Setting,
 	type PluginManifest,
 } from "obsidian";
+import moment from "moment";
+import AIService, {
+	AI_PROVIDERS,
+	type AIProviderType,
+	DEFAULT_AI_SYSTEM_PROMPT,
+	type StackInsights,
+} from "src/ai";
 import CommandManager from "src/command";
+import { COMPOSE_FIELDS, type ComposeField } from "src/compose";
+import {
+	type DockerStackFile,
+	getSourceLabel,
+	isSourceConfigured,
+	type RepositorySource,
+	STACK_NAMING_RULES,
+	type StackNamingRule,
+} from "src/github";
+import { LINT_RULES, type LintRule } from "src/lint";
+import {
+	DEFAULT_SECRET_KEY_PATTERNS,
+	DEFAULT_SECRET_VALUE_PATTERNS,
+} from "src/redact";
+import StackDashboardView, { DASHBOARD_VIEW_TYPE } from "src/view";
+import { PROVIDER_NAMES, type ProviderType } from "src/providers";
+import type { CommitInfo } from "src/providers/provider";
 
 interface DockerToObsiSettings {
-	ghUsername: string;
-	ghRepository: string;
-	ghToken: string;
+	sources: RepositorySource[];
+	composeFilePatterns: string[];
+	stackNaming: StackNamingRule;
+	stackNameRegex: string;
+	redactSecrets: boolean;
+	secretKeyPatterns: string[];
+	secretValuePatterns: string[];
+	redactionPlaceholder: string;
 	folderPath: string;
 	frontmatterProperty: string;
+	reviewChanges: boolean;
+	syncOnStartup: boolean;
+	syncIntervalMinutes: number;
+	quietSync: boolean;
+	fetchCommits: boolean;
+	recentCommitsCount: number;
+	writeComposeFrontmatter: boolean;
+	composeFrontmatterMapping: Record<ComposeField, string>;
+	archiveProperty: string;
+	pullRequestProperty: string;
+	archiveTag: string;
+	archiveFolder: string;
 	templateFilePath: string;
+	warnUnknownPlaceholders: boolean;
 	useAI: boolean;
-	openaiApiKey: string;
+	aiProvider: AIProviderType;
+	aiBaseUrl: string;
+	aiModel: string;
+	aiApiKey: string;
+	aiTemperature: number;
+	aiSystemPrompt: string;
 	fileNamePrefix: string;
 	fileNameSuffix: string;
+	canvasFilePath: string;
+	linkNotesBySharedNetwork: boolean;
+	auditOnSync: boolean;
+	auditNotePath: string;
+	lintRules: Record<LintRule, boolean>;
+}
+
+/**
+ * Settings from versions that only supported a single GitHub repository.
+ */
+interface LegacySettings {
+	ghUsername?: string;
+	ghRepository?: string;
+	ghToken?: string;
+	openaiApiKey?: string;
+}
+
+/**
+ * Default secret value patterns of older versions, which only matched whole values. Kept to
+ * replace them by the current defaults, in the same order.
+ */
+const LEGACY_SECRET_VALUE_PATTERNS = [
+	"^(?:ghp|gho|ghu|ghs|ghr|github_pat)_[A-Za-z0-9_]{20,}$",
+	"^glpat-[A-Za-z0-9_-]{20,}$",
+	"^sk-[A-Za-z0-9_-]{20,}$",
+	"^xox[abprs]-[A-Za-z0-9-]{10,}$",
+	"^AKIA[0-9A-Z]{16}$",
+	"^[a-z][a-z0-9+.-]*://[^/\\s:@]+:[^/\\s@]+@",
+];
+
+/**
+ * Cache entries from older versions.
+ */
+interface LegacyCache {
+	/** Raw file contents keyed by blob SHA, secrets included. */
+	blobs?: Record<string, string>;
+}
+
+export type CachedResponse = {
+	etag: string;
+	body: unknown;
+};
+
+export type SyncedNote = {
+	/** Hash of the stack content and settings the note was rendered from. */
+	hash: string;
+	/** Modification time of the note right after the sync. */
+	mtime: number;
+	/** Blob SHA of the compose file the note was synced from, missing in older caches. */
+	sha?: string;
+};
+
+/**
+ * Data persisted next to the settings to avoid refetching unchanged content.
+ */
+interface DockerToObsiCache {
+	/** Last response of conditional requests, keyed by URL. */
+	responses: Record<string, CachedResponse>;
+	/** State of each stack note at its last sync, keyed by note path. */
+	syncedNotes: Record<string, SyncedNote>;
+	/** Timestamp of the last successful sync. */
+	lastSyncTime: number | null;
+	/** Generated descriptions, tags and categories, keyed by hash of AI settings and prompt. */
+	aiInsights: Record<string, StackInsights>;
+	/** Latest commits of compose files, keyed by file URL, blob SHA and commit count. */
+	commits: Record<string, CommitInfo[]>;
 }
 
 const DEFAULT_SETTINGS: DockerToObsiSettings = {
-	ghUsername: "",
-	ghRepository: "",
-	ghToken: "",
+	sources: [],
+	composeFilePatterns: [
+		"**/compose.yaml",
+		"**/compose.yml",
+		"**/docker-compose.yaml",
+		"**/docker-compose.yml",
+		"**/*.compose.yaml",
+		"**/*.compose.yml",
+	],
+	stackNaming: "lastDirectory",
+	stackNameRegex: "",
+	redactSecrets: true,
+	secretKeyPatterns: DEFAULT_SECRET_KEY_PATTERNS,
+	secretValuePatterns: DEFAULT_SECRET_VALUE_PATTERNS,
+	redactionPlaceholder: "<redacted>",
 	folderPath: "",
 	frontmatterProperty: "stackName",
+	reviewChanges: true,
+	syncOnStartup: false,
+	syncIntervalMinutes: 0,
+	quietSync: true,
+	fetchCommits: false,
+	recentCommitsCount: 5,
+	writeComposeFrontmatter: false,
+	composeFrontmatterMapping: {
+		images: "images",
+		services: "services",
+		ports: "ports",
+		networks: "networks",
+		volumes: "volumes",
+	},
+	archiveProperty: "archived",
+	pullRequestProperty: "pullRequest",
+	archiveTag: "",
+	archiveFolder: "",
 	templateFilePath: "",
+	warnUnknownPlaceholders: false,
 	useAI: false,
-	openaiApiKey: "",
+	aiProvider: "openai",
+	aiBaseUrl: "",
+	aiModel: "",
+	aiApiKey: "",
+	aiTemperature: 0.3,
+	aiSystemPrompt: DEFAULT_AI_SYSTEM_PROMPT,
 	fileNamePrefix: "",
 	fileNameSuffix: "",
+	canvasFilePath: "Docker stacks.canvas",
+	linkNotesBySharedNetwork: false,
+	auditOnSync: false,
+	auditNotePath: "Docker stack audit.md",
+	lintRules: {
+		duplicateHostPort: true,
+		latestImage: true,
+		missingRestart: true,
+		privileged: true,
+		dockerSocket: true,
+		hardcodedSecret: true,
+	},
+};
+
+const DEFAULT_CACHE: DockerToObsiCache = {
+	responses: {},
+	syncedNotes: {},
+	lastSyncTime: null,
+	aiInsights: {},
+	commits: {},
 };
 
 export default class DockerToObsiPlugin extends Plugin {
 	settings: DockerToObsiSettings;
+	cache: DockerToObsiCache;
 	private commandManager: CommandManager;
+	private syncStatusEl: HTMLElement;
+	private syncIntervalId: number | null = null;
 
 	constructor(app: App, manifest: PluginManifest) {
 		super(app, manifest);
@@ -58,20 +231,240 @@ export default class DockerToObsiPlugin extends Plugin {
 				this.commandManager.createMissingDockerNotesCommand(),
 		});
 
+		this.addCommand({
+			id: "archive-orphaned-docker-notes",
+			name: "Archive notes of removed Docker stacks",
+			callback: async () => this.commandManager.archiveOrphanedNotesCommand(),
+		});
+
+		this.addCommand({
+			id: "regenerate-ai-content-current-note",
+			name: "Regenerate AI description and tags of current note",
+			callback: async () =>
+				this.commandManager.regenerateAIContentCommand(true),
+		});
+
+		this.addCommand({
+			id: "regenerate-ai-content",
+			name: "Regenerate AI description and tags of Docker stack notes",
+			callback: async () => this.commandManager.regenerateAIContentCommand(),
+		});
+
+		this.addCommand({
+			id: "propose-changes-from-note",
+			name: "Propose changes from this note",
+			callback: async () => this.commandManager.proposeChangesCommand(),
+		});
+
+		this.addCommand({
+			id: "export-docker-stacks-canvas",
+			name: "Export shared networks and volumes to canvas",
+			callback: async () => this.commandManager.exportCanvasCommand(),
+		});
+
+		this.addCommand({
+			id: "write-docker-stacks-audit",
+			name: "Write Docker stack audit report",
+			callback: async () => this.commandManager.auditStacksCommand(),
+		});
+
+		this.registerView(
+			DASHBOARD_VIEW_TYPE,
+			(leaf) => new StackDashboardView(leaf, this, this.commandManager),
+		);
+		this.addRibbonIcon("container", "Open Docker stacks dashboard", () =>
+			this.activateDashboard(),
+		);
+		this.addCommand({
+			id: "open-docker-stacks-dashboard",
+			name: "Open Docker stacks dashboard",
+			callback: async () => this.activateDashboard(),
+		});
+
 		this.addSettingTab(new SettingTab(this.app, this));
+
+		this.syncStatusEl = this.addStatusBarItem();
+		this.updateSyncStatus();
+
+		this.scheduleSync();
+		this.app.workspace.onLayoutReady(() => {
+			if (this.settings.syncOnStartup) {
+				this.commandManager.scheduledSyncCommand();
+			}
+		});
 	}
 
 	onunload() {}
 
+	/**
+	 * (Re)starts the sync interval from the settings. Intervals are registered so they
+	 * are cleared when the plugin unloads.
+	 */
+	scheduleSync() {
+		if (this.syncIntervalId !== null) {
+			window.clearInterval(this.syncIntervalId);
+			this.syncIntervalId = null;
+		}
+
+		const minutes = this.settings.syncIntervalMinutes;
+		if (minutes > 0) {
+			this.syncIntervalId = this.registerInterval(
+				window.setInterval(
+					() => this.commandManager.scheduledSyncCommand(),
+					minutes * 60 * 1000,
+				),
+			);
+		}
+	}
+
+	/**
+	 * Reveals the dashboard, opening it in the right sidebar when it is not open yet.
+	 */
+	async activateDashboard() {
+		const { workspace } = this.app;
+		let leaf = workspace.getLeavesOfType(DASHBOARD_VIEW_TYPE)[0];
+		if (!leaf) {
+			const rightLeaf = workspace.getRightLeaf(false);
+			if (!rightLeaf) {
+				return;
+			}
+			leaf = rightLeaf;
+			await leaf.setViewState({ type: DASHBOARD_VIEW_TYPE, active: true });
+		}
+		await workspace.revealLeaf(leaf);
+	}
+
+	/**
+	 * Updates the open dashboards with freshly fetched stacks, or recomputes the statuses of
+	 * their stacks when none are given.
+	 */
+	async refreshDashboards(stacks?: DockerStackFile[]) {
+		await Promise.all(
+			this.app.workspace
+				.getLeavesOfType(DASHBOARD_VIEW_TYPE)
+				.map((leaf) => leaf.view)
+				.filter(
+					(view): view is StackDashboardView =>
+						view instanceof StackDashboardView,
+				)
+				.map((view) => view.refreshStatuses(stacks)),
+		);
+	}
+
+	async setLastSyncTime(time: number) {
+		this.cache.lastSyncTime = time;
+		await this.saveCache();
+		this.updateSyncStatus();
+	}
+
+	private updateSyncStatus() {
+		const { lastSyncTime } = this.cache;
+		if (!lastSyncTime) {
+			this.syncStatusEl.setText("");
+			return;
+		}
+
+		const time = moment(lastSyncTime);
+		const format = time.isSame(moment(), "day") ? "HH:mm" : "YYYY-MM-DD HH:mm";
+		this.syncStatusEl.setText(`Docker stacks synced ${time.format(format)}`);
+	}
+
 	async loadSettings() {
-		this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+		const data = (await this.loadData()) ?? {};
+		const {
+			ghUsername,
+			ghRepository,
+			ghToken,
+			openaiApiKey,
+			cache,
+			...settings
+		} = data as Partial<DockerToObsiSettings> &
+			LegacySettings & { cache?: Partial<DockerToObsiCache> & LegacyCache };
+		this.settings = Object.assign({}, DEFAULT_SETTINGS, settings);
+		this.settings.composeFrontmatterMapping = Object.assign(
+			{},
+			DEFAULT_SETTINGS.composeFrontmatterMapping,
+			settings.composeFrontmatterMapping,
+		);
+		this.settings.lintRules = Object.assign(
+			{},
+			DEFAULT_SETTINGS.lintRules,
+			settings.lintRules,
+		);
+		// Replace the whole value defaults of older versions, matching inside values now
+		this.settings.secretValuePatterns = this.settings.secretValuePatterns.map(
+			(pattern) => {
+				const index = LEGACY_SECRET_VALUE_PATTERNS.indexOf(pattern);
+				return index === -1 ? pattern : DEFAULT_SECRET_VALUE_PATTERNS[index];
+			},
+		);
+		const { blobs, ...storedCache } = cache ?? {};
+		this.cache = Object.assign({}, DEFAULT_CACHE, storedCache);
+		this.settings.sources = this.settings.sources.map((source) => ({
+			...createSource(),
+			...source,
+		}));
+
+		// Migrate the single repository setup into the sources list
+		if (ghUsername && ghRepository && this.settings.sources.length === 0) {
+			this.settings.sources.push({
+				...createSource(),
+				owner: ghUsername,
+				repo: ghRepository,
+				token: ghToken ?? "",
+			});
+			await this.saveSettings();
+		}
+
+		// Migrate the OpenAI only key into the AI provider settings
+		if (openaiApiKey && !this.settings.aiApiKey) {
+			this.settings.aiApiKey = openaiApiKey;
+			await this.saveSettings();
+		}
+
+		// File contents were stored unredacted by older versions, drop them from the data file
+		if (blobs) {
+			await this.saveCache();
+		}
 	}
 
 	async saveSettings() {
-		await this.saveData(this.settings);
+		await this.savePluginData();
+	}
+
+	async saveCache() {
+		await this.savePluginData();
+	}
+
+	private async savePluginData() {
+		await this.saveData({ ...this.settings, cache: this.cache });
 	}
 }
 
+export function createSource(): RepositorySource {
+	return {
+		id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+		provider: "github",
+		baseUrl: "",
+		owner: "",
+		repo: "",
+		ref: "main",
+		path: "",
+		token: "",
+		directory: "",
+	};
+}
+
+/**
+ * Splits a text area value into its non-empty trimmed lines.
+ */
+function splitLines(value: string): string[] {
+	return value
+		.split("\n")
+		.map((line) => line.trim())
+		.filter((line) => line);
+}
+
 class SettingTab extends PluginSettingTab {
 	plugin: DockerToObsiPlugin;
 
@@ -85,34 +478,200 @@ class SettingTab extends PluginSettingTab {
 
 		containerEl.empty();
 
-		new Setting(containerEl).setHeading().setName("GitHub");
-		new Setting(containerEl).setName("Github Username").addText((text) =>
-			text
-				.setPlaceholder("Username")
-				.setValue(this.plugin.settings.ghUsername)
-				.onChange(async (value) => {
-					this.plugin.settings.ghUsername = value;
-					await this.plugin.saveSettings();
-				}),
-		);
-		new Setting(containerEl).setName("Github Repository").addText((text) =>
-			text
-				.setPlaceholder("Repository")
-				.setValue(this.plugin.settings.ghRepository)
-				.onChange(async (value) => {
-					this.plugin.settings.ghRepository = value;
-					await this.plugin.saveSettings();
-				}),
-		);
-		new Setting(containerEl).setName("Github Token").addText((text) =>
-			text
-				.setPlaceholder("Token")
-				.setValue(this.plugin.settings.ghToken)
-				.onChange(async (value) => {
-					this.plugin.settings.ghToken = value;
+		new Setting(containerEl)
+			.setHeading()
+			.setName("Sources")
+			.setDesc("Git repositories to fetch compose files from")
+			.addButton((button) =>
+				button.setButtonText("Add source").onClick(async () => {
+					this.plugin.settings.sources.push(createSource());
 					await this.plugin.saveSettings();
+					this.display();
 				}),
-		);
+			);
+
+		for (const source of this.plugin.settings.sources) {
+			this.displaySource(containerEl, source);
+		}
+
+		new Setting(containerEl).setHeading().setName("Discovery");
+		new Setting(containerEl)
+			.setName("Compose File Patterns")
+			.setDesc(
+				"Glob patterns of compose files to look for, one per line, relative to the source sub-path",
+			)
+			.addTextArea((text) =>
+				text
+					.setPlaceholder("**/compose.yaml")
+					.setValue(this.plugin.settings.composeFilePatterns.join("\n"))
+					.onChange(async (value) => {
+						this.plugin.settings.composeFilePatterns = splitLines(value);
+						await this.plugin.saveSettings();
+					}),
+			);
+		new Setting(containerEl)
+			.setName("Stack Naming")
+			.setDesc(
+				"How stack names are derived from compose file paths. Files like 'app.compose.yaml' are named after their prefix.",
+			)
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOptions(STACK_NAMING_RULES)
+					.setValue(this.plugin.settings.stackNaming)
+					.onChange(async (value) => {
+						this.plugin.settings.stackNaming = value as StackNamingRule;
+						await this.plugin.saveSettings();
+						this.display();
+					}),
+			);
+		if (this.plugin.settings.stackNaming === "regex") {
+			new Setting(containerEl)
+				.setName("Stack Name Regex")
+				.setDesc(
+					"Regular expression applied to the relative path, the first capture group is used as stack name",
+				)
+				.addText((text) =>
+					text
+						.setPlaceholder("^([^/]+/[^/]+)/")
+						.setValue(this.plugin.settings.stackNameRegex)
+						.onChange(async (value) => {
+							this.plugin.settings.stackNameRegex = value;
+							await this.plugin.saveSettings();
+						}),
+				);
+		}
+
+		new Setting(containerEl).setHeading().setName("Secrets");
+		new Setting(containerEl)
+			.setName("Redact Secrets")
+			.setDesc(
+				"Mask secret values of compose and env files before they are written to notes or sent to the AI",
+			)
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.redactSecrets)
+					.onChange(async (value) => {
+						this.plugin.settings.redactSecrets = value;
+						await this.plugin.saveSettings();
+						this.display();
+					}),
+			);
+		if (this.plugin.settings.redactSecrets) {
+			new Setting(containerEl)
+				.setName("Secret Key Patterns")
+				.setDesc(
+					"Glob patterns of variable and property names whose value is masked, one per line, case insensitive",
+				)
+				.addTextArea((text) =>
+					text
+						.setPlaceholder("*_PASSWORD")
+						.setValue(this.plugin.settings.secretKeyPatterns.join("\n"))
+						.onChange(async (value) => {
+							this.plugin.settings.secretKeyPatterns = splitLines(value);
+							await this.plugin.saveSettings();
+						}),
+				);
+			new Setting(containerEl)
+				.setName("Secret Value Patterns")
+				.setDesc(
+					"Regular expressions of values masked whatever their name, one per line, e.g. token formats. Matches inside a value only mask the matched part",
+				)
+				.addTextArea((text) =>
+					text
+						.setPlaceholder("\\bghp_[A-Za-z0-9]{36}")
+						.setValue(this.plugin.settings.secretValuePatterns.join("\n"))
+						.onChange(async (value) => {
+							this.plugin.settings.secretValuePatterns = splitLines(value);
+							await this.plugin.saveSettings();
+						}),
+				);
+			new Setting(containerEl)
+				.setName("Placeholder")
+				.setDesc("Text replacing masked values")
+				.addText((text) =>
+					text
+						.setPlaceholder("<redacted>")
+						.setValue(this.plugin.settings.redactionPlaceholder)
+						.onChange(async (value) => {
+							this.plugin.settings.redactionPlaceholder =
+								value || DEFAULT_SETTINGS.redactionPlaceholder;
+							await this.plugin.saveSettings();
+						}),
+				);
+		}
+
+		new Setting(containerEl).setHeading().setName("Sync");
+		new Setting(containerEl)
+			.setName("Sync on Startup")
+			.setDesc("Sync Docker stacks into notes when Obsidian starts")
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.syncOnStartup)
+					.onChange(async (value) => {
+						this.plugin.settings.syncOnStartup = value;
+						await this.plugin.saveSettings();
+					}),
+			);
+		new Setting(containerEl)
+			.setName("Sync Interval")
+			.setDesc(
+				"Minutes between automatic syncs (0 to disable). Automatic syncs apply changes without review.",
+			)
+			.addText((text) =>
+				text
+					.setPlaceholder("0")
+					.setValue(String(this.plugin.settings.syncIntervalMinutes))
+					.onChange(async (value) => {
+						const minutes = Number.parseInt(value, 10);
+						this.plugin.settings.syncIntervalMinutes =
+							Number.isNaN(minutes) || minutes < 0 ? 0 : minutes;
+						await this.plugin.saveSettings();
+						this.plugin.scheduleSync();
+					}),
+			);
+		new Setting(containerEl)
+			.setName("Quiet Mode")
+			.setDesc(
+				"Only show a notice after automatic syncs when notes changed, failed to update or wait for review",
+			)
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.quietSync)
+					.onChange(async (value) => {
+						this.plugin.settings.quietSync = value;
+						await this.plugin.saveSettings();
+					}),
+			);
+		new Setting(containerEl)
+			.setName("Fetch Commit History")
+			.setDesc(
+				"Fetch the latest commits of each compose file to write the lastCommit, lastChanged and repoUrl properties and the recent changes section. Costs one request per stack whose compose file changed.",
+			)
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.fetchCommits)
+					.onChange(async (value) => {
+						this.plugin.settings.fetchCommits = value;
+						await this.plugin.saveSettings();
+						this.display();
+					}),
+			);
+		if (this.plugin.settings.fetchCommits) {
+			new Setting(containerEl)
+				.setName("Recent Changes")
+				.setDesc("Number of commits listed in the recent changes section")
+				.addText((text) =>
+					text
+						.setPlaceholder("5")
+						.setValue(String(this.plugin.settings.recentCommitsCount))
+						.onChange(async (value) => {
+							const count = Number.parseInt(value, 10);
+							this.plugin.settings.recentCommitsCount =
+								Number.isNaN(count) || count < 1 ? 1 : count;
+							await this.plugin.saveSettings();
+						}),
+				);
+		}
 
 		new Setting(containerEl).setHeading().setName("Obsidian");
 		new Setting(containerEl)
@@ -143,6 +702,109 @@ class SettingTab extends PluginSettingTab {
 						await this.plugin.saveSettings();
 					}),
 			);
+		new Setting(containerEl)
+			.setName("Review Changes")
+			.setDesc(
+				"Show a diff of every note that would change and approve each one before notes are updated. Automatic syncs leave changed notes for review instead of updating them",
+			)
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.reviewChanges)
+					.onChange(async (value) => {
+						this.plugin.settings.reviewChanges = value;
+						await this.plugin.saveSettings();
+					}),
+			);
+		new Setting(containerEl)
+			.setName("Write Compose Properties")
+			.setDesc(
+				"Write properties derived from the compose file (images, services, ports...) into the frontmatter of stack notes on every sync",
+			)
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.writeComposeFrontmatter)
+					.onChange(async (value) => {
+						this.plugin.settings.writeComposeFrontmatter = value;
+						await this.plugin.saveSettings();
+						this.display();
+					}),
+			);
+		if (this.plugin.settings.writeComposeFrontmatter) {
+			for (const [field, name] of Object.entries(COMPOSE_FIELDS)) {
+				const composeField = field as ComposeField;
+				new Setting(containerEl)
+					.setName(`${name} Property`)
+					.setDesc("Leave empty to skip this property")
+					.addText((text) =>
+						text
+							.setPlaceholder(composeField)
+							.setValue(
+								this.plugin.settings.composeFrontmatterMapping[composeField],
+							)
+							.onChange(async (value) => {
+								this.plugin.settings.composeFrontmatterMapping[composeField] =
+									value.trim();
+								await this.plugin.saveSettings();
+							}),
+					);
+			}
+		}
+		new Setting(containerEl)
+			.setName("Archive Property")
+			.setDesc(
+				"Frontmatter property set to true on notes of removed stacks when archiving them (leave empty to skip)",
+			)
+			.addText((text) =>
+				text
+					.setPlaceholder("archived")
+					.setValue(this.plugin.settings.archiveProperty)
+					.onChange(async (value) => {
+						this.plugin.settings.archiveProperty = value.trim();
+						await this.plugin.saveSettings();
+					}),
+			);
+		new Setting(containerEl)
+			.setName("Pull Request Property")
+			.setDesc(
+				"Frontmatter property the link of the last pull request proposed from a note is written to (leave empty to skip)",
+			)
+			.addText((text) =>
+				text
+					.setPlaceholder("pullRequest")
+					.setValue(this.plugin.settings.pullRequestProperty)
+					.onChange(async (value) => {
+						this.plugin.settings.pullRequestProperty = value.trim();
+						await this.plugin.saveSettings();
+					}),
+			);
+		new Setting(containerEl)
+			.setName("Archive Tag")
+			.setDesc(
+				"Tag added to notes of removed stacks when archiving them (leave empty to skip)",
+			)
+			.addText((text) =>
+				text
+					.setPlaceholder("archived")
+					.setValue(this.plugin.settings.archiveTag)
+					.onChange(async (value) => {
+						this.plugin.settings.archiveTag = value.trim().replace(/^#/, "");
+						await this.plugin.saveSettings();
+					}),
+			);
+		new Setting(containerEl)
+			.setName("Archive Folder")
+			.setDesc("Folder notes of removed stacks can be moved to")
+			.addText((text) =>
+				text
+					.setPlaceholder("Archive/Docker")
+					.setValue(this.plugin.settings.archiveFolder)
+					.onChange(async (value) => {
+						this.plugin.settings.archiveFolder = value
+							.trim()
+							.replace(/\/+$/, "");
+						await this.plugin.saveSettings();
+					}),
+			);
 		new Setting(containerEl)
 			.setName("Template File Path")
 			.setDesc(
@@ -157,6 +819,19 @@ class SettingTab extends PluginSettingTab {
 						await this.plugin.saveSettings();
 					}),
 			);
+		new Setting(containerEl)
+			.setName("Warn About Unknown Placeholders")
+			.setDesc(
+				"Show a notice when the template uses placeholders the plugin does not know. Leave off when the template also holds placeholders of Templater or core templates, e.g. {{title}}",
+			)
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.warnUnknownPlaceholders)
+					.onChange(async (value) => {
+						this.plugin.settings.warnUnknownPlaceholders = value;
+						await this.plugin.saveSettings();
+					}),
+			);
 
 		new Setting(containerEl)
 			.setName("File Name Prefix")
@@ -188,11 +863,84 @@ class SettingTab extends PluginSettingTab {
 					}),
 			);
 
+		new Setting(containerEl).setHeading().setName("Canvas");
+		new Setting(containerEl)
+			.setName("Canvas File Path")
+			.setDesc(
+				"Canvas showing the networks and volumes shared between stacks. Nodes you move keep their position on export.",
+			)
+			.addText((text) =>
+				text
+					.setPlaceholder(DEFAULT_SETTINGS.canvasFilePath)
+					.setValue(this.plugin.settings.canvasFilePath)
+					.onChange(async (value) => {
+						this.plugin.settings.canvasFilePath =
+							value.trim() || DEFAULT_SETTINGS.canvasFilePath;
+						await this.plugin.saveSettings();
+					}),
+			);
+		new Setting(containerEl)
+			.setName("Link Notes by Shared Network")
+			.setDesc(
+				"On canvas export, also add links to the notes of stacks sharing a network in each stack note",
+			)
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.linkNotesBySharedNetwork)
+					.onChange(async (value) => {
+						this.plugin.settings.linkNotesBySharedNetwork = value;
+						await this.plugin.saveSettings();
+					}),
+			);
+
+		new Setting(containerEl).setHeading().setName("Audit");
+		new Setting(containerEl)
+			.setName("Audit on Sync")
+			.setDesc(
+				"Check the stacks for common mistakes on every manual sync and write the findings to the audit report note",
+			)
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.auditOnSync)
+					.onChange(async (value) => {
+						this.plugin.settings.auditOnSync = value;
+						await this.plugin.saveSettings();
+					}),
+			);
+		new Setting(containerEl)
+			.setName("Audit Report Path")
+			.setDesc(
+				"Note the findings are written to. Only the generated section is replaced, so you can add your own notes around it.",
+			)
+			.addText((text) =>
+				text
+					.setPlaceholder(DEFAULT_SETTINGS.auditNotePath)
+					.setValue(this.plugin.settings.auditNotePath)
+					.onChange(async (value) => {
+						this.plugin.settings.auditNotePath =
+							value.trim() || DEFAULT_SETTINGS.auditNotePath;
+						await this.plugin.saveSettings();
+					}),
+			);
+		for (const [rule, name] of Object.entries(LINT_RULES)) {
+			const lintRule = rule as LintRule;
+			new Setting(containerEl).setName(name).addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.lintRules[lintRule])
+					.onChange(async (value) => {
+						this.plugin.settings.lintRules[lintRule] = value;
+						await this.plugin.saveSettings();
+					}),
+			);
+		}
+
 		new Setting(containerEl).setHeading().setName("AI");
 
 		new Setting(containerEl)
 			.setName("Use AI")
-			.setDesc("Enable AI-powered descriptions for Docker stacks using OpenAI")
+			.setDesc(
+				"Enable AI-powered descriptions and tags for Docker stacks using OpenAI or a local model",
+			)
 			.addToggle((toggle) =>
 				toggle.setValue(this.plugin.settings.useAI).onChange(async (value) => {
 					this.plugin.settings.useAI = value;
@@ -202,20 +950,251 @@ class SettingTab extends PluginSettingTab {
 			);
 
 		if (this.plugin.settings.useAI) {
+			const defaults = AI_PROVIDERS[this.plugin.settings.aiProvider];
+			new Setting(containerEl)
+				.setName("AI Provider")
+				.setDesc(
+					"Ollama, LM Studio and other local servers can be used through their OpenAI-compatible API",
+				)
+				.addDropdown((dropdown) => {
+					for (const [type, provider] of Object.entries(AI_PROVIDERS)) {
+						dropdown.addOption(type, provider.name);
+					}
+					dropdown
+						.setValue(this.plugin.settings.aiProvider)
+						.onChange(async (value) => {
+							this.plugin.settings.aiProvider = value as AIProviderType;
+							await this.plugin.saveSettings();
+							this.display();
+						});
+				});
 			new Setting(containerEl)
-				.setName("OpenAI API Key")
+				.setName("Base URL")
 				.setDesc(
-					"Your OpenAI API key for generating AI descriptions (required when AI is enabled)",
+					defaults.baseUrl
+						? "Leave empty to use the default endpoint of the provider"
+						: "URL of the OpenAI-compatible API, e.g. http://localhost:1234/v1",
+				)
+				.addText((text) =>
+					text
+						.setPlaceholder(defaults.baseUrl || "http://localhost:1234/v1")
+						.setValue(this.plugin.settings.aiBaseUrl)
+						.onChange(async (value) => {
+							this.plugin.settings.aiBaseUrl = value.trim();
+							await this.plugin.saveSettings();
+						}),
+				);
+			new Setting(containerEl)
+				.setName("Model")
+				.setDesc(
+					defaults.model
+						? `Leave empty to use ${defaults.model}`
+						: "Name of the model to use",
+				)
+				.addText((text) =>
+					text
+						.setPlaceholder(defaults.model)
+						.setValue(this.plugin.settings.aiModel)
+						.onChange(async (value) => {
+							this.plugin.settings.aiModel = value.trim();
+							await this.plugin.saveSettings();
+						}),
+				);
+			new Setting(containerEl)
+				.setName("API Key")
+				.setDesc(
+					this.plugin.settings.aiProvider === "openai"
+						? "Your OpenAI API key for generating AI descriptions (required when AI is enabled)"
+						: "Optional, only needed when the endpoint requires authentication",
 				)
 				.addText((text) =>
 					text
 						.setPlaceholder("sk-...")
-						.setValue(this.plugin.settings.openaiApiKey)
+						.setValue(this.plugin.settings.aiApiKey)
 						.onChange(async (value) => {
-							this.plugin.settings.openaiApiKey = value;
+							this.plugin.settings.aiApiKey = value;
 							await this.plugin.saveSettings();
 						}),
 				);
+			new Setting(containerEl)
+				.setName("Temperature")
+				.setDesc("Lower values give more focused and consistent answers")
+				.addSlider((slider) =>
+					slider
+						.setLimits(0, 1, 0.1)
+						.setValue(this.plugin.settings.aiTemperature)
+						.setDynamicTooltip()
+						.onChange(async (value) => {
+							this.plugin.settings.aiTemperature = value;
+							await this.plugin.saveSettings();
+						}),
+				);
+			new Setting(containerEl)
+				.setName("System Prompt")
+				.setDesc(
+					"Instructions sent with the services and images of each stack to generate its description, tags and category",
+				)
+				.addExtraButton((button) =>
+					button
+						.setIcon("reset")
+						.setTooltip("Restore default prompt")
+						.onClick(async () => {
+							this.plugin.settings.aiSystemPrompt = DEFAULT_AI_SYSTEM_PROMPT;
+							await this.plugin.saveSettings();
+							this.display();
+						}),
+				)
+				.addTextArea((text) => {
+					text
+						.setValue(this.plugin.settings.aiSystemPrompt)
+						.onChange(async (value) => {
+							this.plugin.settings.aiSystemPrompt = value;
+							await this.plugin.saveSettings();
+						});
+					text.inputEl.rows = 8;
+				});
+			new Setting(containerEl)
+				.setName("Test Connection")
+				.setDesc("Send a short request to check the provider settings")
+				.addButton((button) =>
+					button.setButtonText("Test").onClick(async () => {
+						button.setDisabled(true);
+						try {
+							const answer = await new AIService(this.plugin).testConnection();
+							new Notice(`AI provider answered: ${answer || "(empty)"}`);
+						} catch (error) {
+							console.error("AI connection test failed:", error);
+							new Notice(
+								`AI connection test failed: ${error instanceof Error ? error.message : error}`,
+							);
+						} finally {
+							button.setDisabled(false);
+						}
+					}),
+				);
 		}
 	}
+
+	private displaySource(containerEl: HTMLElement, source: RepositorySource) {
+		new Setting(containerEl)
+			.setName(
+				isSourceConfigured(source) ? getSourceLabel(source) : "New source",
+			)
+			.addExtraButton((button) =>
+				button
+					.setIcon("trash")
+					.setTooltip("Remove source")
+					.onClick(async () => {
+						this.plugin.settings.sources = this.plugin.settings.sources.filter(
+							(s) => s.id !== source.id,
+						);
+						await this.plugin.saveSettings();
+						this.display();
+					}),
+			);
+		new Setting(containerEl).setName("Provider").addDropdown((dropdown) =>
+			dropdown
+				.addOptions(PROVIDER_NAMES)
+				.setValue(source.provider)
+				.onChange(async (value) => {
+					source.provider = value as ProviderType;
+					await this.plugin.saveSettings();
+					this.display();
+				}),
+		);
+
+		if (source.provider === "local") {
+			new Setting(containerEl)
+				.setName("Directory")
+				.setDesc(
+					"Absolute path of a folder on this machine, e.g. a clone of your compose repository",
+				)
+				.addText((text) =>
+					text
+						.setPlaceholder("/home/user/homelab")
+						.setValue(source.directory)
+						.onChange(async (value) => {
+							source.directory = value.trim();
+							await this.plugin.saveSettings();
+						}),
+				);
+			this.displaySourceSubPath(containerEl, source);
+			return;
+		}
+
+		new Setting(containerEl)
+			.setName("Base URL")
+			.setDesc(
+				"API URL for GitHub Enterprise, instance URL for self-hosted GitLab, Gitea or Forgejo (leave empty for github.com or gitlab.com)",
+			)
+			.addText((text) =>
+				text
+					.setPlaceholder("https://git.example.com")
+					.setValue(source.baseUrl)
+					.onChange(async (value) => {
+						source.baseUrl = value.trim();
+						await this.plugin.saveSettings();
+					}),
+			);
+		new Setting(containerEl).setName("Owner").addText((text) =>
+			text
+				.setPlaceholder("Username or organization")
+				.setValue(source.owner)
+				.onChange(async (value) => {
+					source.owner = value.trim();
+					await this.plugin.saveSettings();
+				}),
+		);
+		new Setting(containerEl).setName("Repository").addText((text) =>
+			text
+				.setPlaceholder("Repository")
+				.setValue(source.repo)
+				.onChange(async (value) => {
+					source.repo = value.trim();
+					await this.plugin.saveSettings();
+				}),
+		);
+		new Setting(containerEl)
+			.setName("Ref")
+			.setDesc("Branch, tag or commit SHA to read compose files from")
+			.addText((text) =>
+				text
+					.setPlaceholder("main")
+					.setValue(source.ref)
+					.onChange(async (value) => {
+						source.ref = value.trim() || "main";
+						await this.plugin.saveSettings();
+					}),
+			);
+		this.displaySourceSubPath(containerEl, source);
+		new Setting(containerEl).setName("Token").addText((text) =>
+			text
+				.setPlaceholder("Token")
+				.setValue(source.token)
+				.onChange(async (value) => {
+					source.token = value.trim();
+					await this.plugin.saveSettings();
+				}),
+		);
+	}
+
+	private displaySourceSubPath(
+		containerEl: HTMLElement,
+		source: RepositorySource,
+	) {
+		new Setting(containerEl)
+			.setName("Sub-path")
+			.setDesc(
+				"Folder inside the repository to look for compose files in (leave empty for entire repository)",
+			)
+			.addText((text) =>
+				text
+					.setPlaceholder("path/to/stacks")
+					.setValue(source.path)
+					.onChange(async (value) => {
+						source.path = value.trim().replace(/^\/+|\/+$/g, "");
+						await this.plugin.saveSettings();
+					}),
+			);
+	}
 }
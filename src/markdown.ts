@@ -0,0 +1,194 @@
+import { type ComposeModel, formatPort } from "src/compose";
+import type { EnvVariable } from "src/env";
+import type { CommitInfo } from "src/providers/provider";
+import moment from "moment";
+
+/**
+ * Managed regions are parts of a note delimited by HTML comments, which the plugin
+ * rewrites on every sync without touching the rest of the note.
+ */
+const MANAGED_REGION_PREFIX = "docker-to-obsi";
+
+function getRegionMarkers(name: string) {
+	return {
+		start: `<!-- ${MANAGED_REGION_PREFIX}:${name}:start -->`,
+		end: `<!-- ${MANAGED_REGION_PREFIX}:${name}:end -->`,
+	};
+}
+
+function escapeRegExp(value: string): string {
+	return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function getRegionRegex(name: string): RegExp {
+	const { start, end } = getRegionMarkers(name);
+	return new RegExp(`${escapeRegExp(start)}[\\s\\S]*?${escapeRegExp(end)}`);
+}
+
+/**
+ * Wraps content in the start and end markers of a managed region.
+ */
+export function wrapManagedRegion(name: string, content: string): string {
+	const { start, end } = getRegionMarkers(name);
+	return `${start}\n${content.trim()}\n${end}`;
+}
+
+export function hasManagedRegion(note: string, name: string): boolean {
+	return getRegionRegex(name).test(note);
+}
+
+/**
+ * Returns the content inside a managed region, or null when the note has no such region.
+ */
+export function getManagedRegionContent(
+	note: string,
+	name: string,
+): string | null {
+	const match = note.match(getRegionRegex(name));
+	if (!match) {
+		return null;
+	}
+	const { start, end } = getRegionMarkers(name);
+	return match[0].slice(start.length, -end.length).trim();
+}
+
+/**
+ * Replaces the content of a managed region. Notes without the region are returned as is.
+ */
+export function replaceManagedRegion(
+	note: string,
+	name: string,
+	content: string,
+): string {
+	return note.replace(getRegionRegex(name), () =>
+		wrapManagedRegion(name, content),
+	);
+}
+
+/**
+ * Renders a fenced code block with a title, as used for the compose files of a stack.
+ */
+export function renderCodeBlock(
+	language: string,
+	title: string,
+	content: string,
+): string {
+	return `\`\`\`${language} title=${title}\n${content.trim()}\n\`\`\``;
+}
+
+/**
+ * Replaces the content of the first code block with the given title, keeping its language.
+ * Notes without such a code block are returned as is.
+ */
+export function replaceCodeBlock(
+	note: string,
+	title: string,
+	content: string,
+): string {
+	const regex = new RegExp(
+		`^\`\`\`(\\S*)\\s+title=${escapeRegExp(title)}\\r?\\n[\\s\\S]*?\\n\`\`\``,
+		"m",
+	);
+	return note.replace(regex, (_match, language: string) =>
+		renderCodeBlock(language, title, content),
+	);
+}
+
+/**
+ * Escapes a value so it can be used inside a Markdown table cell.
+ */
+export function escapeTableCell(value: string): string {
+	return value.replace(/\|/g, "\\|").replace(/\r?\n/g, " ");
+}
+
+/**
+ * Renders a Markdown table from a header row and rows of cells.
+ */
+export function renderTable(headers: string[], rows: string[][]): string {
+	const renderRow = (cells: string[]) =>
+		`| ${cells.map((cell) => escapeTableCell(cell) || " ").join(" | ")} |`;
+
+	return [
+		renderRow(headers),
+		`| ${headers.map(() => "---").join(" | ")} |`,
+		...rows.map(renderRow),
+	].join("\n");
+}
+
+/**
+ * Renders a table of the services of a stack with their image, ports, volumes and restart policy.
+ */
+export function renderServicesTable(model: ComposeModel): string {
+	if (model.services.length === 0) {
+		return "_No services defined._";
+	}
+
+	return renderTable(
+		["Service", "Image", "Tag", "Ports", "Volumes", "Restart"],
+		model.services.map((service) => [
+			service.name,
+			service.imageName ?? "",
+			service.tag ?? (service.imageName ? "latest" : ""),
+			service.ports
+				.filter((port) => port.published)
+				.map((port) => `\`${formatPort(port)}\``)
+				.join(", "),
+			service.volumes
+				.map(
+					(volume) =>
+						`\`${volume.source ? `${volume.source}:` : ""}${volume.target}${volume.readOnly ? ":ro" : ""}\``,
+				)
+				.join(", "),
+			service.restart ?? "",
+		]),
+	);
+}
+
+/**
+ * Renders a table of the variables of a stack with their default and example values.
+ * Variables missing from the example env file are flagged.
+ */
+export function renderEnvTable(variables: EnvVariable[]): string {
+	if (variables.length === 0) {
+		return "_No variables referenced._";
+	}
+
+	const formatValue = (value?: string) =>
+		value === undefined ? "" : value === "" ? "_empty_" : `\`${value}\``;
+
+	return renderTable(
+		["Variable", "Default", "Example", "Notes"],
+		variables.map((variable) => [
+			`\`${variable.name}\``,
+			formatValue(variable.defaultValue),
+			formatValue(variable.exampleValue),
+			[
+				...(variable.required ? ["Required"] : []),
+				...(variable.documented ? [] : ["⚠️ Not documented"]),
+			].join(", "),
+		]),
+	);
+}
+
+/**
+ * Returns the first line of a commit message.
+ */
+export function getCommitSubject(message: string): string {
+	return message.split(/\r?\n/)[0].trim();
+}
+
+/**
+ * Renders the latest commits of a stack as a list, newest first.
+ */
+export function renderCommitList(commits: CommitInfo[]): string {
+	if (commits.length === 0) {
+		return "_No commits found._";
+	}
+
+	return commits
+		.map(
+			(commit) =>
+				`- ${moment(commit.date).format("YYYY-MM-DD")} [\`${commit.sha.slice(0, 7)}\`](${commit.url}) ${getCommitSubject(commit.message)} (${commit.author})`,
+		)
+		.join("\n");
+}
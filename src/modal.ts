@@ -1,9 +1,18 @@
 import type { App } from "obsidian";
-import { Modal } from "obsidian";
-import type { DockerStackFile } from "src/github";
+import { Modal, Setting } from "obsidian";
+import { type DockerStackFile, getSourceLabel } from "src/github";
 import type DockerToObsiPlugin from "src/main";
 import moment from "moment";
 import type ObsidianService from "src/obsidian";
+import type {
+	ArchiveAction,
+	InsightTarget,
+	NoteUpdate,
+	OrphanedNote,
+	RenameSuggestion,
+	StackNote,
+} from "src/obsidian";
+import { diffLines, getDiffHunks } from "src/diff";
 
 export class StackSelectionModal extends Modal {
 	private plugin: DockerToObsiPlugin;
@@ -216,3 +225,650 @@ export class StackSelectionModal extends Modal {
 		return processedTemplate;
 	}
 }
+
+/**
+ * Renders the changed lines between two versions of a text with a few lines of context
+ * around them.
+ */
+function renderDiff(
+	containerEl: HTMLElement,
+	oldContent: string,
+	newContent: string,
+) {
+	const pre = containerEl.createEl("pre");
+	pre.style.fontSize = "0.8em";
+	pre.style.whiteSpace = "pre-wrap";
+
+	const hunks = getDiffHunks(diffLines(oldContent, newContent));
+	for (const line of hunks) {
+		const lineEl = pre.createDiv();
+		if (line === null) {
+			lineEl.textContent = "…";
+			lineEl.style.color = "var(--text-faint)";
+			continue;
+		}
+
+		if (line.type === "added") {
+			lineEl.textContent = `+ ${line.text}`;
+			lineEl.style.color = "var(--text-success)";
+			lineEl.style.backgroundColor = "rgba(var(--color-green-rgb), 0.1)";
+		} else if (line.type === "removed") {
+			lineEl.textContent = `- ${line.text}`;
+			lineEl.style.color = "var(--text-error)";
+			lineEl.style.backgroundColor = "rgba(var(--color-red-rgb), 0.1)";
+		} else {
+			lineEl.textContent = `  ${line.text}`;
+		}
+	}
+}
+
+type UpdateReviewOptions<T extends NoteUpdate> = {
+	title?: string;
+	/** Extra change shown above the diff, e.g. frontmatter changes. */
+	describe?: (update: T) => string | null;
+	/** Called when the modal is closed without applying the updates. */
+	onCancel?: () => void;
+};
+
+export class UpdateReviewModal<
+	T extends NoteUpdate = NoteUpdate,
+> extends Modal {
+	private updates: T[];
+	private selectedUpdates: Set<string>;
+	private onSubmit: (selectedUpdates: T[]) => void;
+	private options: UpdateReviewOptions<T>;
+	private submitted = false;
+
+	constructor(
+		app: App,
+		updates: T[],
+		onSubmit: (selectedUpdates: T[]) => void,
+		options: UpdateReviewOptions<T> = {},
+	) {
+		super(app);
+		this.updates = updates.sort((a, b) =>
+			a.file.path.localeCompare(b.file.path),
+		);
+		this.selectedUpdates = new Set(updates.map((update) => update.file.path));
+		this.onSubmit = onSubmit;
+		this.options = options;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		contentEl.createEl("h2", {
+			text: this.options.title ?? "Review Docker Stack Updates",
+		});
+
+		contentEl.createEl("p", {
+			text: `${this.updates.length} note${this.updates.length === 1 ? "" : "s"} would change. Review the changes and select which ones to apply:`,
+		});
+
+		// Add accept/skip all buttons
+		const buttonContainer = contentEl.createDiv("update-review-buttons");
+		buttonContainer.style.marginBottom = "1rem";
+
+		const acceptAllBtn = buttonContainer.createEl("button", {
+			text: "Accept All",
+			cls: "mod-cta",
+		});
+		acceptAllBtn.style.marginRight = "0.5rem";
+		acceptAllBtn.onclick = () => {
+			this.selectedUpdates = new Set(
+				this.updates.map((update) => update.file.path),
+			);
+			this.refreshCheckboxes();
+		};
+
+		const skipAllBtn = buttonContainer.createEl("button", {
+			text: "Skip All",
+		});
+		skipAllBtn.onclick = () => {
+			this.selectedUpdates.clear();
+			this.refreshCheckboxes();
+		};
+
+		const updateContainer = contentEl.createDiv("update-review-list");
+		updateContainer.style.maxHeight = "60vh";
+		updateContainer.style.overflowY = "auto";
+		updateContainer.style.border =
+			"1px solid var(--background-modifier-border)";
+		updateContainer.style.padding = "0.5rem";
+		updateContainer.style.marginBottom = "1rem";
+
+		for (const update of this.updates) {
+			const updateItem = updateContainer.createDiv("update-item");
+			updateItem.style.padding = "0.25rem 0";
+
+			const header = updateItem.createDiv();
+			header.style.display = "flex";
+			header.style.alignItems = "center";
+
+			const checkbox = header.createEl("input", { type: "checkbox" });
+			checkbox.checked = this.selectedUpdates.has(update.file.path);
+			checkbox.style.marginRight = "0.5rem";
+			checkbox.addEventListener("change", () => {
+				if (checkbox.checked) {
+					this.selectedUpdates.add(update.file.path);
+				} else {
+					this.selectedUpdates.delete(update.file.path);
+				}
+			});
+
+			header.createEl("strong", { text: update.file.basename });
+
+			const stackName = header.createEl("div");
+			stackName.style.fontSize = "0.8em";
+			stackName.style.color = "var(--text-muted)";
+			stackName.style.marginLeft = "0.5rem";
+			stackName.textContent = `← ${update.stack.name}`;
+
+			const description = this.options.describe?.(update);
+			if (description) {
+				const descriptionEl = updateItem.createDiv();
+				descriptionEl.style.fontSize = "0.8em";
+				descriptionEl.style.color = "var(--text-muted)";
+				descriptionEl.textContent = description;
+			}
+
+			if (update.newContent !== update.oldContent) {
+				const details = updateItem.createEl("details");
+				details.createEl("summary", { text: "Show changes" });
+				renderDiff(details, update.oldContent, update.newContent);
+			}
+		}
+
+		// Add action buttons
+		const actionContainer = contentEl.createDiv("update-review-actions");
+		actionContainer.style.display = "flex";
+		actionContainer.style.justifyContent = "flex-end";
+		actionContainer.style.gap = "0.5rem";
+
+		const cancelBtn = actionContainer.createEl("button", {
+			text: "Cancel",
+		});
+		cancelBtn.onclick = () => this.close();
+
+		const applyBtn = actionContainer.createEl("button", {
+			text: "Apply Selected",
+			cls: "mod-cta",
+		});
+		applyBtn.onclick = () => {
+			const selectedUpdates = this.updates.filter((update) =>
+				this.selectedUpdates.has(update.file.path),
+			);
+			this.submitted = true;
+			this.onSubmit(selectedUpdates);
+			this.close();
+		};
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+		if (!this.submitted) {
+			this.options.onCancel?.();
+		}
+	}
+
+	private refreshCheckboxes() {
+		const checkboxes = this.contentEl.querySelectorAll(
+			'input[type="checkbox"]',
+		) as NodeListOf<HTMLInputElement>;
+		checkboxes.forEach((checkbox, index) => {
+			checkbox.checked = this.selectedUpdates.has(
+				this.updates[index].file.path,
+			);
+		});
+	}
+}
+
+export class OrphanedNotesModal extends Modal {
+	private notes: OrphanedNote[];
+	private selectedNotes: Set<string>;
+	private action: ArchiveAction = "mark";
+	private onSubmit: (
+		selectedNotes: OrphanedNote[],
+		action: ArchiveAction,
+	) => void;
+
+	constructor(
+		app: App,
+		notes: OrphanedNote[],
+		onSubmit: (selectedNotes: OrphanedNote[], action: ArchiveAction) => void,
+	) {
+		super(app);
+		this.notes = notes.sort((a, b) => a.file.path.localeCompare(b.file.path));
+		this.selectedNotes = new Set();
+		this.onSubmit = onSubmit;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		contentEl.createEl("h2", { text: "Notes of Removed Docker Stacks" });
+
+		contentEl.createEl("p", {
+			text: `Found ${this.notes.length} note${this.notes.length === 1 ? "" : "s"} whose stack no longer exists in any source. Select which ones to archive, unselected notes are left alone:`,
+		});
+
+		// Add select all/none buttons
+		const buttonContainer = contentEl.createDiv("orphaned-notes-buttons");
+		buttonContainer.style.marginBottom = "1rem";
+
+		const selectAllBtn = buttonContainer.createEl("button", {
+			text: "Select All",
+			cls: "mod-cta",
+		});
+		selectAllBtn.style.marginRight = "0.5rem";
+		selectAllBtn.onclick = () => {
+			this.selectedNotes = new Set(this.notes.map((note) => note.file.path));
+			this.refreshCheckboxes();
+		};
+
+		const selectNoneBtn = buttonContainer.createEl("button", {
+			text: "Select None",
+		});
+		selectNoneBtn.onclick = () => {
+			this.selectedNotes.clear();
+			this.refreshCheckboxes();
+		};
+
+		const noteContainer = contentEl.createDiv("orphaned-notes-list");
+		noteContainer.style.maxHeight = "300px";
+		noteContainer.style.overflowY = "auto";
+		noteContainer.style.border = "1px solid var(--background-modifier-border)";
+		noteContainer.style.padding = "0.5rem";
+		noteContainer.style.marginBottom = "1rem";
+
+		for (const note of this.notes) {
+			const noteItem = noteContainer.createDiv("orphaned-note-item");
+			noteItem.style.padding = "0.25rem 0";
+			noteItem.style.display = "flex";
+			noteItem.style.alignItems = "center";
+
+			const checkbox = noteItem.createEl("input", { type: "checkbox" });
+			checkbox.checked = this.selectedNotes.has(note.file.path);
+			checkbox.style.marginRight = "0.5rem";
+			checkbox.addEventListener("change", () => {
+				if (checkbox.checked) {
+					this.selectedNotes.add(note.file.path);
+				} else {
+					this.selectedNotes.delete(note.file.path);
+				}
+			});
+
+			noteItem.createEl("strong", { text: note.file.basename });
+
+			const stackName = noteItem.createEl("div");
+			stackName.style.fontSize = "0.8em";
+			stackName.style.color = "var(--text-muted)";
+			stackName.style.marginLeft = "0.5rem";
+			stackName.textContent = note.stackName;
+		}
+
+		new Setting(contentEl).setName("Action").addDropdown((dropdown) =>
+			dropdown
+				.addOptions({
+					mark: "Mark as archived",
+					move: "Move to archive folder",
+				})
+				.setValue(this.action)
+				.onChange((value) => {
+					this.action = value as ArchiveAction;
+				}),
+		);
+
+		// Add action buttons
+		const actionContainer = contentEl.createDiv("orphaned-notes-actions");
+		actionContainer.style.display = "flex";
+		actionContainer.style.justifyContent = "flex-end";
+		actionContainer.style.gap = "0.5rem";
+
+		const cancelBtn = actionContainer.createEl("button", {
+			text: "Cancel",
+		});
+		cancelBtn.onclick = () => this.close();
+
+		const archiveBtn = actionContainer.createEl("button", {
+			text: "Archive Selected",
+			cls: "mod-cta",
+		});
+		archiveBtn.onclick = () => {
+			const selectedNotes = this.notes.filter((note) =>
+				this.selectedNotes.has(note.file.path),
+			);
+			this.onSubmit(selectedNotes, this.action);
+			this.close();
+		};
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+
+	private refreshCheckboxes() {
+		const checkboxes = this.contentEl.querySelectorAll(
+			'input[type="checkbox"]',
+		) as NodeListOf<HTMLInputElement>;
+		checkboxes.forEach((checkbox, index) => {
+			checkbox.checked = this.selectedNotes.has(this.notes[index].file.path);
+		});
+	}
+}
+
+export class RenameSuggestionsModal extends Modal {
+	private suggestions: RenameSuggestion[];
+	private selectedSuggestions: Set<string>;
+	private onSubmit: (selectedSuggestions: RenameSuggestion[]) => void;
+
+	constructor(
+		app: App,
+		suggestions: RenameSuggestion[],
+		onSubmit: (selectedSuggestions: RenameSuggestion[]) => void,
+	) {
+		super(app);
+		this.suggestions = suggestions;
+		this.selectedSuggestions = new Set(
+			suggestions.map((suggestion) => suggestion.note.file.path),
+		);
+		this.onSubmit = onSubmit;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		contentEl.createEl("h2", { text: "Renamed Docker Stacks" });
+
+		contentEl.createEl("p", {
+			text: `${this.suggestions.length} existing note${this.suggestions.length === 1 ? "" : "s"} closely match${this.suggestions.length === 1 ? "es" : ""} a new stack, which was likely renamed or moved. Select the notes to point to the new stack instead of creating a new note:`,
+		});
+
+		const suggestionContainer = contentEl.createDiv("rename-suggestion-list");
+		suggestionContainer.style.maxHeight = "300px";
+		suggestionContainer.style.overflowY = "auto";
+		suggestionContainer.style.border =
+			"1px solid var(--background-modifier-border)";
+		suggestionContainer.style.padding = "0.5rem";
+		suggestionContainer.style.marginBottom = "1rem";
+
+		for (const suggestion of this.suggestions) {
+			const { note, stack, similarity } = suggestion;
+			const suggestionItem = suggestionContainer.createDiv(
+				"rename-suggestion-item",
+			);
+			suggestionItem.style.padding = "0.25rem 0";
+			suggestionItem.style.display = "flex";
+			suggestionItem.style.alignItems = "center";
+
+			const checkbox = suggestionItem.createEl("input", { type: "checkbox" });
+			checkbox.checked = this.selectedSuggestions.has(note.file.path);
+			checkbox.style.marginRight = "0.5rem";
+			checkbox.addEventListener("change", () => {
+				if (checkbox.checked) {
+					this.selectedSuggestions.add(note.file.path);
+				} else {
+					this.selectedSuggestions.delete(note.file.path);
+				}
+			});
+
+			suggestionItem.createEl("strong", { text: note.file.basename });
+
+			const rename = suggestionItem.createEl("div");
+			rename.style.fontSize = "0.8em";
+			rename.style.color = "var(--text-muted)";
+			rename.style.marginLeft = "0.5rem";
+			rename.textContent = `${note.stackName} → ${stack.name} (${Math.round(similarity * 100)}% similar)`;
+		}
+
+		// Add action buttons
+		const actionContainer = contentEl.createDiv("rename-suggestion-actions");
+		actionContainer.style.display = "flex";
+		actionContainer.style.justifyContent = "flex-end";
+		actionContainer.style.gap = "0.5rem";
+
+		const skipBtn = actionContainer.createEl("button", {
+			text: "Skip",
+		});
+		skipBtn.onclick = () => {
+			this.onSubmit([]);
+			this.close();
+		};
+
+		const repointBtn = actionContainer.createEl("button", {
+			text: "Update Selected",
+			cls: "mod-cta",
+		});
+		repointBtn.onclick = () => {
+			const selectedSuggestions = this.suggestions.filter((suggestion) =>
+				this.selectedSuggestions.has(suggestion.note.file.path),
+			);
+			this.onSubmit(selectedSuggestions);
+			this.close();
+		};
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
+
+export class RegenerateInsightsModal extends Modal {
+	private notes: StackNote[];
+	private selectedNotes: Set<string>;
+	private target: InsightTarget = "all";
+	private onSubmit: (selectedNotes: StackNote[], target: InsightTarget) => void;
+
+	constructor(
+		app: App,
+		notes: StackNote[],
+		selectedPaths: string[],
+		onSubmit: (selectedNotes: StackNote[], target: InsightTarget) => void,
+	) {
+		super(app);
+		this.notes = notes.sort((a, b) => a.file.path.localeCompare(b.file.path));
+		this.selectedNotes = new Set(selectedPaths);
+		this.onSubmit = onSubmit;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		contentEl.createEl("h2", { text: "Regenerate AI Content" });
+
+		contentEl.createEl("p", {
+			text: "Select the notes to regenerate the description and tags of. Changes are shown for review before being applied:",
+		});
+
+		// Add select all/none buttons
+		const buttonContainer = contentEl.createDiv("regenerate-insights-buttons");
+		buttonContainer.style.marginBottom = "1rem";
+
+		const selectAllBtn = buttonContainer.createEl("button", {
+			text: "Select All",
+			cls: "mod-cta",
+		});
+		selectAllBtn.style.marginRight = "0.5rem";
+		selectAllBtn.onclick = () => {
+			this.selectedNotes = new Set(this.notes.map((note) => note.file.path));
+			this.refreshCheckboxes();
+		};
+
+		const selectNoneBtn = buttonContainer.createEl("button", {
+			text: "Select None",
+		});
+		selectNoneBtn.onclick = () => {
+			this.selectedNotes.clear();
+			this.refreshCheckboxes();
+		};
+
+		const noteContainer = contentEl.createDiv("regenerate-insights-list");
+		noteContainer.style.maxHeight = "300px";
+		noteContainer.style.overflowY = "auto";
+		noteContainer.style.border = "1px solid var(--background-modifier-border)";
+		noteContainer.style.padding = "0.5rem";
+		noteContainer.style.marginBottom = "1rem";
+
+		for (const note of this.notes) {
+			const noteItem = noteContainer.createDiv("regenerate-insights-item");
+			noteItem.style.padding = "0.25rem 0";
+			noteItem.style.display = "flex";
+			noteItem.style.alignItems = "center";
+
+			const checkbox = noteItem.createEl("input", { type: "checkbox" });
+			checkbox.checked = this.selectedNotes.has(note.file.path);
+			checkbox.style.marginRight = "0.5rem";
+			checkbox.addEventListener("change", () => {
+				if (checkbox.checked) {
+					this.selectedNotes.add(note.file.path);
+				} else {
+					this.selectedNotes.delete(note.file.path);
+				}
+			});
+
+			noteItem.createEl("strong", { text: note.file.basename });
+
+			const stackName = noteItem.createEl("div");
+			stackName.style.fontSize = "0.8em";
+			stackName.style.color = "var(--text-muted)";
+			stackName.style.marginLeft = "0.5rem";
+			stackName.textContent = note.stack.name;
+		}
+
+		new Setting(contentEl).setName("Regenerate").addDropdown((dropdown) =>
+			dropdown
+				.addOptions({
+					all: "Description and tags",
+					description: "Description only",
+					tags: "Tags only",
+				})
+				.setValue(this.target)
+				.onChange((value) => {
+					this.target = value as InsightTarget;
+				}),
+		);
+
+		// Add action buttons
+		const actionContainer = contentEl.createDiv("regenerate-insights-actions");
+		actionContainer.style.display = "flex";
+		actionContainer.style.justifyContent = "flex-end";
+		actionContainer.style.gap = "0.5rem";
+
+		const cancelBtn = actionContainer.createEl("button", {
+			text: "Cancel",
+		});
+		cancelBtn.onclick = () => this.close();
+
+		const generateBtn = actionContainer.createEl("button", {
+			text: "Generate",
+			cls: "mod-cta",
+		});
+		generateBtn.onclick = () => {
+			const selectedNotes = this.notes.filter((note) =>
+				this.selectedNotes.has(note.file.path),
+			);
+			this.onSubmit(selectedNotes, this.target);
+			this.close();
+		};
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+
+	private refreshCheckboxes() {
+		const checkboxes = this.contentEl.querySelectorAll(
+			'input[type="checkbox"]',
+		) as NodeListOf<HTMLInputElement>;
+		checkboxes.forEach((checkbox, index) => {
+			checkbox.checked = this.selectedNotes.has(this.notes[index].file.path);
+		});
+	}
+}
+
+/**
+ * Shows the changes of the compose block of a note against the compose file in the
+ * repository, and asks for the title of the pull request proposing them.
+ */
+export class ProposeChangesModal extends Modal {
+	private stack: DockerStackFile;
+	private oldContent: string;
+	private newContent: string;
+	private title: string;
+	private onSubmit: (title: string) => void;
+
+	constructor(
+		app: App,
+		stack: DockerStackFile,
+		oldContent: string,
+		newContent: string,
+		onSubmit: (title: string) => void,
+	) {
+		super(app);
+		this.stack = stack;
+		this.oldContent = oldContent;
+		this.newContent = newContent;
+		this.title = `Update ${stack.name} compose file`;
+		this.onSubmit = onSubmit;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		contentEl.createEl("h2", { text: "Propose Changes" });
+
+		contentEl.createEl("p", {
+			text: `The changes below are committed to a new branch of ${getSourceLabel(this.stack.source)} and proposed as a pull request for ${this.stack.path}. Redacted secrets keep their value in the repository.`,
+		});
+
+		const diffContainer = contentEl.createDiv("propose-changes-diff");
+		diffContainer.style.maxHeight = "50vh";
+		diffContainer.style.overflowY = "auto";
+		diffContainer.style.border = "1px solid var(--background-modifier-border)";
+		diffContainer.style.padding = "0.5rem";
+		diffContainer.style.marginBottom = "1rem";
+		renderDiff(diffContainer, this.oldContent, this.newContent);
+
+		new Setting(contentEl).setName("Title").addText((text) =>
+			text.setValue(this.title).onChange((value) => {
+				this.title = value;
+			}),
+		);
+
+		// Add action buttons
+		const actionContainer = contentEl.createDiv("propose-changes-actions");
+		actionContainer.style.display = "flex";
+		actionContainer.style.justifyContent = "flex-end";
+		actionContainer.style.gap = "0.5rem";
+
+		const cancelBtn = actionContainer.createEl("button", {
+			text: "Cancel",
+		});
+		cancelBtn.onclick = () => this.close();
+
+		const proposeBtn = actionContainer.createEl("button", {
+			text: "Create Pull Request",
+			cls: "mod-cta",
+		});
+		proposeBtn.onclick = () => {
+			this.onSubmit(
+				this.title.trim() || `Update ${this.stack.name} compose file`,
+			);
+			this.close();
+		};
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
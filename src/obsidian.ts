@@ -1,13 +1,126 @@
 import { TFile } from "obsidian";
-import type { DockerStackFile } from "src/github";
+import {
+	type ComposeField,
+	formatPort,
+	getComposeFieldValues,
+} from "src/compose";
+import {
+	findDuplicateStacks,
+	type DockerStackFile,
+	getSourceLabel,
+	isComposeFile,
+	type StackFile,
+} from "src/github";
+import {
+	getCommitSubject,
+	hasManagedRegion,
+	renderCodeBlock,
+	renderCommitList,
+	renderEnvTable,
+	renderServicesTable,
+	replaceCodeBlock,
+	replaceManagedRegion,
+	wrapManagedRegion,
+} from "src/markdown";
 import type DockerToObsiPlugin from "src/main";
-import AIService from "src/ai";
+import { hashString } from "src/utils";
+import { getLineSimilarity } from "src/diff";
+import AIService, { type StackInsights } from "src/ai";
 import moment from "moment";
+import { renderTemplate, type TemplateContext } from "src/template";
 
 type Frontmatter = {
 	[key: string]: string | undefined;
 };
 
+// Matches: YAML Codeblock with title: compose.yaml, docker-compose.yaml, compose.yml, docker-compose.yml
+const COMPOSE_CODE_BLOCK_REGEX =
+	/^```ya?ml\s+title=(docker-)?compose\.ya?ml\r?\n([\s\S]*?)\n```/m;
+
+/** Text of the {{about}} placeholder when no description is generated. */
+const DESCRIPTION_PLACEHOLDER = "Write description here";
+
+/** Title of the code block holding all compose files of a stack merged together. */
+const RESOLVED_COMPOSE_TITLE = "compose.resolved.yaml";
+
+/** Minimum share of common lines for a new stack to be suggested as renamed note stack. */
+const RENAME_SIMILARITY_THRESHOLD = 0.6;
+
+/** Characters Obsidian does not allow in file names, or that break links to the note. */
+const FORBIDDEN_FILE_NAME_CHARS_REGEX = /[\\/:*?"<>|#^[\]]+/g;
+
+export type SyncResult = {
+	changed: number;
+	unchanged: number;
+	failed: number;
+};
+
+export type SyncPlan = {
+	/** Notes that need to be checked for changes, some may turn out up to date. */
+	updates: NoteUpdate[];
+	unchanged: number;
+	failed: number;
+};
+
+export type OrphanedNote = {
+	file: TFile;
+	stackName: string;
+};
+
+export type RenameSuggestion = {
+	note: OrphanedNote;
+	stack: DockerStackFile;
+	/** Share of compose lines in common, from 0 to 1. */
+	similarity: number;
+};
+
+export type ArchiveAction = "mark" | "move";
+
+/**
+ * State of a stack and its note: note up to date, note to sync, stack without note, note of a
+ * removed stack, or note without compose code block.
+ */
+export type StackStatus =
+	"synced" | "outdated" | "missing" | "orphaned" | "noComposeBlock";
+
+export type StackStatusEntry = {
+	name: string;
+	status: StackStatus;
+	/** Undefined for orphaned notes. */
+	stack?: DockerStackFile;
+	/** Undefined for stacks without note. */
+	file?: TFile;
+};
+
+export type NoteCreationResult = {
+	createdCount: number;
+	/** Placeholders of the template without value, left as is in the notes. */
+	unknownPlaceholders: string[];
+	/** Errors in the block structure of the template, e.g. a block never closed. */
+	templateErrors: string[];
+};
+
+export type StackNote = {
+	file: TFile;
+	stack: DockerStackFile;
+};
+
+/** Which AI generated content to regenerate in existing notes. */
+export type InsightTarget = "all" | "description" | "tags";
+
+export type InsightUpdate = NoteUpdate & {
+	/** Generated tags the note does not have yet. */
+	addedTags: string[];
+};
+
+export type NoteUpdate = {
+	file: TFile;
+	stack: DockerStackFile;
+	oldContent: string;
+	/** Content to write, equal to `oldContent` when the note body is up to date. */
+	newContent: string;
+};
+
 export default class ObsidianService {
 	private readonly plugin: DockerToObsiPlugin;
 	private readonly aiService: AIService;
@@ -19,16 +132,52 @@ export default class ObsidianService {
 
 	/**
 	 * Iterates over all note files in the obsidian vault and updates the first YAML code block
-	 * with the content from matching Docker stacks.
-	 * Returns the number of files that were successfully updated.
+	 * with the content from matching Docker stacks. Stacks sharing a name are ambiguous and
+	 * left out rather than having one overwrite the other.
+	 * Returns how many notes changed, were already up to date or failed to update.
 	 */
 	async checkNotesForMatchingStacks(
 		stacks: DockerStackFile[],
-	): Promise<number> {
+	): Promise<SyncResult> {
+		const plan = await this.planNoteUpdates(stacks);
+		const result = await this.applyNoteUpdates(plan.updates);
+		return {
+			changed: result.changed,
+			unchanged: result.unchanged + plan.unchanged,
+			failed: result.failed + plan.failed,
+		};
+	}
+
+	/**
+	 * Whether a note was not modified since it was synced with the current state of its stack,
+	 * so syncing it again would not change it.
+	 */
+	private isNoteSynced(file: TFile, stack: DockerStackFile): boolean {
+		const synced = this.plugin.cache.syncedNotes[file.path];
+		// Notes synced before the blob SHA was recorded are synced once more to record it
+		return (
+			!!synced?.sha &&
+			synced.hash === this.getSyncHash(stack) &&
+			synced.mtime === file.stat.mtime
+		);
+	}
+
+	/**
+	 * Computes the new content of every note matching a Docker stack, without writing anything.
+	 * Notes without compose code block or managed region are left out, and notes that were not
+	 * modified since their stack was last synced are counted as unchanged without being read.
+	 */
+	async planNoteUpdates(stacks: DockerStackFile[]): Promise<SyncPlan> {
+		const duplicates = findDuplicateStacks(stacks);
 		const stackMap = new Map(
-			stacks.map((stack) => [stack.name, stack.content]),
+			stacks
+				.filter((stack) => !duplicates.has(stack.name))
+				.map((stack) => [stack.name, stack]),
 		);
 		const allFiles = this.getMarkdownFiles();
+		this.pruneSyncedNotes();
+
+		const plan: SyncPlan = { updates: [], unchanged: 0, failed: 0 };
 
 		// Process all files in parallel
 		const updatePromises = allFiles.map(async (file) => {
@@ -38,26 +187,126 @@ export default class ObsidianService {
 				const stackName = frontmatter?.[propertyName];
 
 				if (!stackName) {
-					return false;
+					return;
 				}
 
-				const stackContent = stackMap.get(stackName);
-				if (!stackContent) {
-					return false;
+				const stack = stackMap.get(stackName);
+				if (!stack) {
+					return;
+				}
+
+				if (this.isNoteSynced(file, stack)) {
+					plan.unchanged++;
+					return;
 				}
 
-				return await this.updateYamlCodeBlock(file, stackContent);
+				const oldContent = await this.plugin.app.vault.read(file);
+				const newContent = this.renderNoteUpdate(oldContent, stack, file.path);
+				plan.updates.push({
+					file,
+					stack,
+					oldContent,
+					newContent: newContent ?? oldContent,
+				});
 			} catch (error) {
 				console.error(`Failed to process file ${file.path}:`, error);
-				return false;
+				plan.failed++;
 			}
 		});
 
-		// Wait for all updates to complete and count successful ones
-		const results = await Promise.all(updatePromises);
-		const updatedCount = results.filter((success) => success).length;
+		await Promise.all(updatePromises);
+		return plan;
+	}
 
-		return updatedCount;
+	/**
+	 * Writes planned note updates and the compose-derived frontmatter of their notes,
+	 * then records the synced state of each note.
+	 */
+	async applyNoteUpdates(updates: NoteUpdate[]): Promise<SyncResult> {
+		const result: SyncResult = { changed: 0, unchanged: 0, failed: 0 };
+
+		await Promise.all(
+			updates.map(async (update) => {
+				try {
+					const changed = await this.applyNoteUpdate(update);
+					result[changed ? "changed" : "unchanged"]++;
+					this.plugin.cache.syncedNotes[update.file.path] = {
+						hash: this.getSyncHash(update.stack),
+						mtime: update.file.stat.mtime,
+						sha: update.stack.sha,
+					};
+				} catch (error) {
+					console.error(`Failed to update file ${update.file.path}:`, error);
+					result.failed++;
+				}
+			}),
+		);
+
+		await this.plugin.saveCache();
+		return result;
+	}
+
+	/**
+	 * Writes a single planned update. Throws when the note changed since the update was planned.
+	 * Returns whether the note changed.
+	 */
+	private async applyNoteUpdate(update: NoteUpdate): Promise<boolean> {
+		const { file, stack, oldContent, newContent } = update;
+
+		let contentUpdated = false;
+		if (newContent !== oldContent) {
+			const currentContent = await this.plugin.app.vault.read(file);
+			if (currentContent !== oldContent) {
+				throw new Error("File changed since the update was planned");
+			}
+			await this.plugin.app.vault.modify(file, newContent);
+			contentUpdated = true;
+		}
+
+		const composeUpdated = await this.updateComposeFrontmatter(file, stack);
+		const commitUpdated = await this.updateCommitFrontmatter(file, stack);
+		return contentUpdated || composeUpdated || commitUpdated;
+	}
+
+	/**
+	 * Hash of everything a synced note is derived from. When it matches the hash recorded at
+	 * the last sync and the note was not modified since, the note is known to be up to date.
+	 */
+	private getSyncHash(stack: DockerStackFile): string {
+		const {
+			writeComposeFrontmatter,
+			composeFrontmatterMapping,
+			redactSecrets,
+			secretKeyPatterns,
+			secretValuePatterns,
+			redactionPlaceholder,
+			fetchCommits,
+		} = this.plugin.settings;
+		return hashString(
+			JSON.stringify([
+				stack.sha,
+				stack.files.map((file) => file.sha),
+				writeComposeFrontmatter && composeFrontmatterMapping,
+				redactSecrets && [
+					secretKeyPatterns,
+					secretValuePatterns,
+					redactionPlaceholder,
+				],
+				fetchCommits && stack.commits.map((commit) => commit.sha),
+			]),
+		);
+	}
+
+	/**
+	 * Drops the synced state of notes that no longer exist.
+	 */
+	private pruneSyncedNotes() {
+		const { syncedNotes } = this.plugin.cache;
+		for (const path of Object.keys(syncedNotes)) {
+			if (!this.plugin.app.vault.getAbstractFileByPath(path)) {
+				delete syncedNotes[path];
+			}
+		}
 	}
 
 	async getFrontmatter(filePath: string): Promise<Frontmatter | null> {
@@ -82,53 +331,193 @@ export default class ObsidianService {
 	}
 
 	/**
-	 * Sets a property in the frontmatter of a file using processFrontMatter.
+	 * Sets a property in the frontmatter of a file using processFrontMatter. Resolves once the
+	 * file is written, and rejects when writing fails.
 	 */
 	private async setFrontmatterProperty(
 		file: TFile,
 		propertyName: string,
 		value: string | string[],
 	): Promise<void> {
-		return new Promise((resolve, reject) => {
-			try {
-				this.plugin.app.fileManager.processFrontMatter(file, (frontmatter) => {
+		try {
+			await this.plugin.app.fileManager.processFrontMatter(
+				file,
+				(frontmatter) => {
 					frontmatter[propertyName] = value;
-				});
-				resolve();
-			} catch (error) {
-				console.error(
-					`Failed to set frontmatter property ${propertyName} in file ${file.path}:`,
-					error,
-				);
-				reject(error);
-			}
-		});
+				},
+			);
+		} catch (error) {
+			console.error(
+				`Failed to set frontmatter property ${propertyName} in file ${file.path}:`,
+				error,
+			);
+			throw error;
+		}
+	}
+
+	/**
+	 * Returns the content of the compose code block of a note, or null when it has none.
+	 */
+	getComposeBlockContent(content: string): string | null {
+		return content.match(COMPOSE_CODE_BLOCK_REGEX)?.[2] ?? null;
+	}
+
+	/**
+	 * Records the URL of a pull request proposing the changes of a note in its frontmatter.
+	 */
+	async setPullRequestUrl(file: TFile, url: string): Promise<void> {
+		const property = this.plugin.settings.pullRequestProperty.trim();
+		if (property) {
+			await this.setFrontmatterProperty(file, property, url);
+		}
+	}
+
+	/**
+	 * Writes the configured compose-derived properties (images, ports...) into the frontmatter.
+	 * Returns whether any property changed.
+	 */
+	async updateComposeFrontmatter(
+		file: TFile,
+		stack: DockerStackFile,
+	): Promise<boolean> {
+		const { writeComposeFrontmatter, composeFrontmatterMapping } =
+			this.plugin.settings;
+		if (!writeComposeFrontmatter || !stack.compose) {
+			return false;
+		}
+
+		const values = getComposeFieldValues(stack.compose);
+		let changed = false;
+		await this.plugin.app.fileManager.processFrontMatter(
+			file,
+			(frontmatter) => {
+				for (const [field, propertyName] of Object.entries(
+					composeFrontmatterMapping,
+				)) {
+					const property = propertyName.trim();
+					if (!property) {
+						continue;
+					}
+					const value = values[field as ComposeField];
+					if (JSON.stringify(frontmatter[property]) !== JSON.stringify(value)) {
+						frontmatter[property] = value;
+						changed = true;
+					}
+				}
+			},
+		);
+		return changed;
 	}
 
 	/**
-	 * Updates the first YAML code block with compose title in a markdown file with new content.
+	 * Writes the `lastCommit`, `lastChanged` and `repoUrl` properties when commit history is
+	 * fetched. Returns whether any property changed.
 	 */
-	async updateYamlCodeBlock(file: TFile, newContent: string): Promise<boolean> {
-		const content = await this.plugin.app.vault.read(file);
+	async updateCommitFrontmatter(
+		file: TFile,
+		stack: DockerStackFile,
+	): Promise<boolean> {
+		if (!this.plugin.settings.fetchCommits) {
+			return false;
+		}
 
-		// Matches: YAML Codeblock with title: compose.yaml, docker-compose.yaml, compose.yml, docker-compose.yml
-		const yamlCodeBlockRegex =
-			/^```ya?ml\s+title=(docker-)?compose\.ya?ml\r?\n([\s\S]*?)\n```/m;
-		const match = content.match(yamlCodeBlockRegex);
+		const [lastCommit] = stack.commits;
+		const values: Record<string, string | undefined> = {
+			lastCommit: lastCommit?.sha.slice(0, 7),
+			lastChanged:
+				lastCommit && moment(lastCommit.date).format("YYYY-MM-DDTHH:mm:ss"),
+			repoUrl: stack.url,
+		};
+		let changed = false;
+		await this.plugin.app.fileManager.processFrontMatter(
+			file,
+			(frontmatter) => {
+				for (const [property, value] of Object.entries(values)) {
+					if (value !== undefined && frontmatter[property] !== value) {
+						frontmatter[property] = value;
+						changed = true;
+					}
+				}
+			},
+		);
+		return changed;
+	}
+
+	/**
+	 * Replaces the first YAML code block with compose title in a note with the stack content,
+	 * the code blocks titled after the other files of the stack (overrides, includes, env
+	 * files...) and the resolved compose block, then re-renders the managed regions
+	 * (e.g. the services table) present in the note.
+	 * Returns null when the note has nothing the plugin maintains.
+	 */
+	renderNoteUpdate(
+		content: string,
+		stack: DockerStackFile,
+		filePath: string,
+	): string | null {
+		const match = content.match(COMPOSE_CODE_BLOCK_REGEX);
 
-		if (!match) {
+		let updatedContent = content;
+		if (match) {
+			const oldCodeBlock = match[0];
+			const newCodeBlock = `\`\`\`yaml title=compose.yaml\n${stack.content.trim()}\n\`\`\``;
+			updatedContent = content.replace(oldCodeBlock, () => newCodeBlock);
+		} else {
 			console.warn(
-				`No YAML code block with compose title found in file: ${file.path}`,
+				`No YAML code block with compose title found in file: ${filePath}`,
 			);
-			return false;
 		}
 
-		const oldCodeBlock = match[0];
-		const newCodeBlock = `\`\`\`yaml title=compose.yaml\n${newContent.trim()}\n\`\`\``;
-		const updatedContent = content.replace(oldCodeBlock, newCodeBlock);
+		for (const file of stack.files) {
+			updatedContent = replaceCodeBlock(
+				updatedContent,
+				file.relativePath,
+				file.content,
+			);
+		}
+		if (stack.resolvedContent) {
+			updatedContent = replaceCodeBlock(
+				updatedContent,
+				RESOLVED_COMPOSE_TITLE,
+				stack.resolvedContent,
+			);
+		}
+
+		updatedContent = this.updateManagedRegions(updatedContent, stack);
+		if (!match && updatedContent === content) {
+			return null;
+		}
+		return updatedContent;
+	}
 
-		await this.plugin.app.vault.modify(file, updatedContent);
-		return true;
+	/**
+	 * Re-renders the managed regions of a note from the stack.
+	 */
+	private updateManagedRegions(
+		content: string,
+		stack: DockerStackFile,
+	): string {
+		let updatedContent = content;
+		if (stack.compose) {
+			updatedContent = replaceManagedRegion(
+				updatedContent,
+				"services",
+				renderServicesTable(stack.compose),
+			);
+		}
+		updatedContent = replaceManagedRegion(
+			updatedContent,
+			"env",
+			renderEnvTable(stack.variables),
+		);
+		if (this.plugin.settings.fetchCommits) {
+			updatedContent = replaceManagedRegion(
+				updatedContent,
+				"changes",
+				renderCommitList(stack.commits),
+			);
+		}
+		return updatedContent;
 	}
 
 	/**
@@ -170,41 +559,435 @@ export default class ObsidianService {
 
 		await Promise.all(frontmatterPromises);
 
-		return stacks.filter((stack) => !existingStackNames.has(stack.name));
+		const duplicates = findDuplicateStacks(stacks);
+		return stacks.filter(
+			(stack) =>
+				!existingStackNames.has(stack.name) && !duplicates.has(stack.name),
+		);
+	}
+
+	/**
+	 * Finds notes whose stack no longer exists in any source, the reverse of findMissingStacks.
+	 * Notes already archived (flagged or in the archive folder) are left out.
+	 */
+	async findOrphanedNotes(stacks: DockerStackFile[]): Promise<OrphanedNote[]> {
+		const stackNames = new Set(stacks.map((stack) => stack.name));
+		const { archiveProperty, archiveFolder } = this.plugin.settings;
+		const orphanedNotes: OrphanedNote[] = [];
+
+		const frontmatterPromises = this.getMarkdownFiles().map(async (file) => {
+			try {
+				if (archiveFolder && file.path.startsWith(`${archiveFolder}/`)) {
+					return;
+				}
+
+				const frontmatter = await this.getFrontmatter(file.path);
+				const stackName =
+					frontmatter?.[this.plugin.settings.frontmatterProperty];
+				if (!stackName || stackNames.has(stackName)) {
+					return;
+				}
+				if (archiveProperty && frontmatter?.[archiveProperty]) {
+					return;
+				}
+
+				orphanedNotes.push({ file, stackName });
+			} catch (error) {
+				console.error(`Failed to read frontmatter from ${file.path}:`, error);
+			}
+		});
+
+		await Promise.all(frontmatterPromises);
+		return orphanedNotes;
+	}
+
+	/**
+	 * Pairs notes of removed stacks with new stacks whose compose file closely matches the
+	 * note's compose code block, which usually means the stack was renamed or moved.
+	 * Each note and stack appears in at most one suggestion, best matches first.
+	 */
+	async findLikelyRenames(
+		orphanedNotes: OrphanedNote[],
+		missingStacks: DockerStackFile[],
+	): Promise<RenameSuggestion[]> {
+		const candidates: RenameSuggestion[] = [];
+
+		for (const note of orphanedNotes) {
+			const content = await this.plugin.app.vault.cachedRead(note.file);
+			const codeBlock = content.match(COMPOSE_CODE_BLOCK_REGEX)?.[2];
+			if (!codeBlock) {
+				continue;
+			}
+
+			for (const stack of missingStacks) {
+				const similarity = getLineSimilarity(codeBlock, stack.content);
+				if (similarity >= RENAME_SIMILARITY_THRESHOLD) {
+					candidates.push({ note, stack, similarity });
+				}
+			}
+		}
+
+		const usedNotes = new Set<string>();
+		const usedStacks = new Set<DockerStackFile>();
+		return candidates
+			.sort((a, b) => b.similarity - a.similarity)
+			.filter((candidate) => {
+				if (
+					usedNotes.has(candidate.note.file.path) ||
+					usedStacks.has(candidate.stack)
+				) {
+					return false;
+				}
+				usedNotes.add(candidate.note.file.path);
+				usedStacks.add(candidate.stack);
+				return true;
+			});
+	}
+
+	/**
+	 * Points the notes of renamed stacks to their new stack name.
+	 * Returns the number of notes updated.
+	 */
+	async repointNotes(suggestions: RenameSuggestion[]): Promise<number> {
+		let repointedCount = 0;
+
+		for (const { note, stack } of suggestions) {
+			try {
+				await this.setFrontmatterProperty(
+					note.file,
+					this.plugin.settings.frontmatterProperty,
+					stack.name,
+				);
+				repointedCount++;
+			} catch (error) {
+				console.error(`Failed to repoint note ${note.file.path}:`, error);
+			}
+		}
+
+		return repointedCount;
+	}
+
+	/**
+	 * Archives notes of removed stacks, either by flagging them in their frontmatter or by
+	 * moving them to the archive folder. Returns the number of notes archived.
+	 */
+	async archiveNotes(
+		notes: OrphanedNote[],
+		action: ArchiveAction,
+	): Promise<number> {
+		let archivedCount = 0;
+
+		for (const { file } of notes) {
+			try {
+				if (action === "move") {
+					await this.moveToArchiveFolder(file);
+				} else {
+					await this.markAsArchived(file);
+				}
+				archivedCount++;
+			} catch (error) {
+				console.error(`Failed to archive note ${file.path}:`, error);
+			}
+		}
+
+		return archivedCount;
+	}
+
+	private async markAsArchived(file: TFile): Promise<void> {
+		const { archiveProperty, archiveTag } = this.plugin.settings;
+		if (!archiveProperty && !archiveTag) {
+			throw new Error("No archive property or tag configured");
+		}
+
+		await this.plugin.app.fileManager.processFrontMatter(
+			file,
+			(frontmatter) => {
+				if (archiveProperty) {
+					frontmatter[archiveProperty] = true;
+				}
+				if (archiveTag) {
+					const tags = this.getTags(frontmatter.tags);
+					if (!tags.includes(archiveTag)) {
+						frontmatter.tags = [...tags, archiveTag];
+					}
+				}
+			},
+		);
+	}
+
+	private async moveToArchiveFolder(file: TFile): Promise<void> {
+		const archiveFolder = this.plugin.settings.archiveFolder.trim();
+		if (!archiveFolder) {
+			throw new Error("No archive folder configured");
+		}
+
+		if (!this.plugin.app.vault.getAbstractFileByPath(archiveFolder)) {
+			await this.plugin.app.vault.createFolder(archiveFolder);
+		}
+
+		const newPath = `${archiveFolder}/${file.name}`;
+		if (this.plugin.app.vault.getAbstractFileByPath(newPath)) {
+			throw new Error(`File ${newPath} already exists`);
+		}
+		await this.plugin.app.fileManager.renameFile(file, newPath);
+	}
+
+	/**
+	 * Lists the notes pointing to an existing stack. Stacks sharing a name are left out.
+	 */
+	async findStackNotes(stacks: DockerStackFile[]): Promise<StackNote[]> {
+		const duplicates = findDuplicateStacks(stacks);
+		const stackMap = new Map(
+			stacks
+				.filter((stack) => !duplicates.has(stack.name))
+				.map((stack) => [stack.name, stack]),
+		);
+		const stackNotes: StackNote[] = [];
+
+		const frontmatterPromises = this.getMarkdownFiles().map(async (file) => {
+			try {
+				const frontmatter = await this.getFrontmatter(file.path);
+				const stackName =
+					frontmatter?.[this.plugin.settings.frontmatterProperty];
+				const stack = stackName ? stackMap.get(stackName) : undefined;
+				if (stack) {
+					stackNotes.push({ file, stack });
+				}
+			} catch (error) {
+				console.error(`Failed to read frontmatter from ${file.path}:`, error);
+			}
+		});
+
+		await Promise.all(frontmatterPromises);
+		return stackNotes;
+	}
+
+	/**
+	 * Computes the status of every stack and stack note, without writing anything. Stacks
+	 * sharing a name are left out. Notes known to be up to date since the last sync are not read.
+	 */
+	async getStackStatuses(
+		stacks: DockerStackFile[],
+	): Promise<StackStatusEntry[]> {
+		const stackNotes = await this.findStackNotes(stacks);
+		const orphanedNotes = await this.findOrphanedNotes(stacks);
+		const duplicates = findDuplicateStacks(stacks);
+		const notedStacks = new Set(stackNotes.map((note) => note.stack));
+
+		const noteEntries = await Promise.all(
+			stackNotes.map(async ({ file, stack }): Promise<StackStatusEntry> => {
+				if (this.isNoteSynced(file, stack)) {
+					return { name: stack.name, status: "synced", stack, file };
+				}
+
+				const content = await this.plugin.app.vault.cachedRead(file);
+				if (!COMPOSE_CODE_BLOCK_REGEX.test(content)) {
+					return { name: stack.name, status: "noComposeBlock", stack, file };
+				}
+				const newContent = this.renderNoteUpdate(content, stack, file.path);
+				return {
+					name: stack.name,
+					status: newContent === content ? "synced" : "outdated",
+					stack,
+					file,
+				};
+			}),
+		);
+
+		return [
+			...noteEntries,
+			...stacks
+				.filter(
+					(stack) => !notedStacks.has(stack) && !duplicates.has(stack.name),
+				)
+				.map((stack): StackStatusEntry => ({
+					name: stack.name,
+					status: "missing",
+					stack,
+				})),
+			...orphanedNotes.map((note): StackStatusEntry => ({
+				name: note.stackName,
+				status: "orphaned",
+				file: note.file,
+			})),
+		].sort((a, b) => a.name.localeCompare(b.name));
+	}
+
+	/**
+	 * Generates the description and tags of existing notes without writing anything.
+	 * Descriptions only go into the "about" managed region or replace the description
+	 * placeholder, so hand-written descriptions are kept. Tags are added to existing ones.
+	 * Notes that would not change are left out.
+	 */
+	async planInsightUpdates(
+		notes: StackNote[],
+		target: InsightTarget,
+	): Promise<InsightUpdate[]> {
+		const updates: InsightUpdate[] = [];
+
+		// One note at a time to stay within the rate limits of the AI provider
+		for (const { file, stack } of notes) {
+			try {
+				const insights = await this.aiService.generateStackInsights(stack);
+				if (!insights) {
+					continue;
+				}
+
+				const oldContent = await this.plugin.app.vault.read(file);
+				const newContent =
+					target === "tags"
+						? oldContent
+						: this.renderDescription(oldContent, insights.description);
+				if (newContent === null) {
+					console.info(
+						`No description region or placeholder in ${file.path}, keeping its description`,
+					);
+				}
+
+				let addedTags: string[] = [];
+				if (target !== "description") {
+					const frontmatter = await this.getFrontmatter(file.path);
+					const existingTags = this.getTags(frontmatter?.tags);
+					addedTags = insights.tags.filter(
+						(tag) => !existingTags.includes(tag),
+					);
+				}
+
+				if ((newContent ?? oldContent) !== oldContent || addedTags.length > 0) {
+					updates.push({
+						file,
+						stack,
+						oldContent,
+						newContent: newContent ?? oldContent,
+						addedTags,
+					});
+				}
+			} catch (error) {
+				console.error(
+					`Failed to regenerate AI content of ${file.path}:`,
+					error,
+				);
+			}
+		}
+
+		return updates;
+	}
+
+	/**
+	 * Writes reviewed AI updates. Notes changed since the update was planned are skipped.
+	 * Returns the number of notes updated.
+	 */
+	async applyInsightUpdates(updates: InsightUpdate[]): Promise<number> {
+		let updatedCount = 0;
+
+		for (const update of updates) {
+			try {
+				const { file, oldContent, newContent, addedTags } = update;
+				if (newContent !== oldContent) {
+					const currentContent = await this.plugin.app.vault.read(file);
+					if (currentContent !== oldContent) {
+						throw new Error("File changed since the update was planned");
+					}
+					await this.plugin.app.vault.modify(file, newContent);
+				}
+				if (addedTags.length > 0) {
+					await this.plugin.app.fileManager.processFrontMatter(
+						file,
+						(frontmatter) => {
+							frontmatter.tags = [
+								...this.getTags(frontmatter.tags),
+								...addedTags,
+							];
+						},
+					);
+				}
+				updatedCount++;
+			} catch (error) {
+				console.error(`Failed to update note ${update.file.path}:`, error);
+			}
+		}
+
+		return updatedCount;
+	}
+
+	/**
+	 * Puts a description into the "about" managed region, or in place of the description
+	 * placeholder wrapped in that region. Returns null when the note has neither.
+	 */
+	private renderDescription(
+		content: string,
+		description: string,
+	): string | null {
+		if (hasManagedRegion(content, "about")) {
+			return replaceManagedRegion(content, "about", description);
+		}
+		if (content.includes(DESCRIPTION_PLACEHOLDER)) {
+			return content.replace(DESCRIPTION_PLACEHOLDER, () =>
+				wrapManagedRegion("about", description),
+			);
+		}
+		return null;
+	}
+
+	private getTags(tags: unknown): string[] {
+		if (Array.isArray(tags)) {
+			return tags.map((tag) => String(tag));
+		}
+		return tags ? [String(tags)] : [];
 	}
 
 	/**
 	 * Creates new notes for the given Docker stacks using the configured template file.
 	 * Returns the number of notes successfully created.
 	 */
-	async createNotesFromTemplate(stacks: DockerStackFile[]): Promise<number> {
+	async createNotesFromTemplate(
+		stacks: DockerStackFile[],
+	): Promise<NoteCreationResult> {
 		const templateFilePath = this.plugin.settings.templateFilePath.trim();
 
 		if (!templateFilePath) {
 			console.error("Template file path is not configured");
-			return 0;
+			return { createdCount: 0, unknownPlaceholders: [], templateErrors: [] };
 		}
 
 		const templateFile =
 			this.plugin.app.vault.getAbstractFileByPath(templateFilePath);
 		if (!templateFile || !(templateFile instanceof TFile)) {
 			console.error(`Template file not found: ${templateFilePath}`);
-			return 0;
+			return { createdCount: 0, unknownPlaceholders: [], templateErrors: [] };
 		}
 
 		const templateContent = await this.plugin.app.vault.read(templateFile);
 
-		// Check if template has tags property in frontmatter
+		// Check if template has tags and category properties in frontmatter
 		const templateFrontmatter = await this.getFrontmatter(templateFile.path);
 		const templateHasTags =
-			templateFrontmatter && "tags" in templateFrontmatter;
+			!!templateFrontmatter && "tags" in templateFrontmatter;
+		const templateHasCategory =
+			!!templateFrontmatter && "category" in templateFrontmatter;
+		const templateUsesAI =
+			templateHasTags ||
+			templateHasCategory ||
+			/\{\{(about|category)\}\}/.test(templateContent);
 
 		const folderPath = this.plugin.settings.folderPath.trim();
 		let createdCount = 0;
+		const unknownPlaceholders = new Set<string>();
+		const templateErrors = new Set<string>();
 
 		for (const stack of stacks) {
 			try {
-				const noteContent = await this.processTemplate(templateContent, stack);
+				const insights =
+					templateUsesAI && this.plugin.settings.useAI
+						? await this.aiService.generateStackInsights(stack)
+						: null;
+				const {
+					content: noteContent,
+					unknownPlaceholders: unknown,
+					errors,
+				} = this.processTemplate(templateContent, stack, insights);
+				unknown.forEach((name) => unknownPlaceholders.add(name));
+				errors.forEach((error) => templateErrors.add(error));
 				const fileName = this.generateFileName(stack.name);
 				const filePath = folderPath ? `${folderPath}/${fileName}` : fileName;
 
@@ -220,16 +1003,20 @@ export default class ObsidianService {
 					noteContent,
 				);
 
-				await this.setFrontmatterProperty(
+				// Stack name and insights in one awaited write, so a failed write fails the note
+				await this.plugin.app.fileManager.processFrontMatter(
 					newFile,
-					this.plugin.settings.frontmatterProperty,
-					stack.name,
+					(frontmatter) => {
+						frontmatter[this.plugin.settings.frontmatterProperty] = stack.name;
+						if (insights && templateHasTags) {
+							frontmatter.tags = insights.tags;
+						}
+						if (insights && templateHasCategory) {
+							frontmatter.category = insights.category;
+						}
+					},
 				);
-
-				if (templateHasTags && this.plugin.settings.useAI) {
-					const generatedTags = await this.aiService.generateStackTags(stack);
-					await this.setFrontmatterProperty(newFile, "tags", generatedTags);
-				}
+				await this.updateCommitFrontmatter(newFile, stack);
 
 				createdCount++;
 			} catch (error) {
@@ -237,14 +1024,34 @@ export default class ObsidianService {
 			}
 		}
 
-		return createdCount;
+		if (unknownPlaceholders.size > 0) {
+			console.warn(
+				`Template ${templateFilePath} uses unknown placeholders:`,
+				Array.from(unknownPlaceholders),
+			);
+		}
+		if (templateErrors.size > 0) {
+			console.warn(
+				`Template ${templateFilePath} has errors:`,
+				Array.from(templateErrors),
+			);
+		}
+		return {
+			createdCount,
+			unknownPlaceholders: Array.from(unknownPlaceholders),
+			templateErrors: Array.from(templateErrors),
+		};
 	}
 
 	/**
 	 * Generates a file name for a Docker stack using the configured prefix/suffix settings.
+	 * Path separators and other forbidden characters of stack names like `hosts/a/app` are
+	 * turned into spaces, so the note is created in the configured folder.
 	 */
 	generateFileName(stackName: string): string {
-		const capitalizedName = this.capitalizeStackName(stackName);
+		const capitalizedName = this.capitalizeStackName(
+			stackName.replace(FORBIDDEN_FILE_NAME_CHARS_REGEX, " ").trim(),
+		);
 		const { fileNamePrefix, fileNameSuffix } = this.plugin.settings;
 
 		// Process date variables in prefix and suffix
@@ -269,40 +1076,124 @@ export default class ObsidianService {
 	}
 
 	/**
-	 * Processes the template by replacing placeholders with actual values.
+	 * Renders the template for a stack, see {@link renderTemplate} for the syntax.
+	 * Returns the note content, the placeholders the template uses without value and the
+	 * errors in its block structure.
 	 */
-	private async processTemplate(
+	private processTemplate(
 		template: string,
 		stack: DockerStackFile,
-	): Promise<string> {
-		let processedTemplate = template;
-		if (processedTemplate.includes("{{stackContent}}")) {
-			processedTemplate = processedTemplate.replace(
-				/\{\{stackContent\}\}/g,
-				stack.content,
-			);
-		} else {
-			processedTemplate = this.processYamlCodeBlocks(
-				processedTemplate,
-				stack.content,
-			);
-		}
+		insights: StackInsights | null,
+	): { content: string; unknownPlaceholders: string[]; errors: string[] } {
+		const processedTemplate = template.includes("{{stackContent}}")
+			? template
+			: this.processYamlCodeBlocks(template);
 
-		let description = "Write description here";
-		if (processedTemplate.includes("{{about}}") && this.plugin.settings.useAI) {
-			description = await this.aiService.generateStackDescription(stack);
-		}
+		return renderTemplate(
+			processedTemplate,
+			this.getTemplateContext(stack, insights),
+		);
+	}
 
-		// Process date variables with flexible formatting
-		processedTemplate = this.processDateVariables(processedTemplate);
+	/**
+	 * Values available in templates.
+	 */
+	private getTemplateContext(
+		stack: DockerStackFile,
+		insights: StackInsights | null,
+	): TemplateContext {
+		const values = stack.compose ? getComposeFieldValues(stack.compose) : null;
+		const now = moment();
+		const [lastCommit] = stack.commits;
 
-		return processedTemplate
-			.replace(/\{\{stackName\}\}/g, stack.name)
-			.replace(/\{\{about\}\}/g, description);
+		return {
+			stackName: stack.name,
+			stackContent: stack.content.trim(),
+			about: insights
+				? wrapManagedRegion("about", insights.description)
+				: DESCRIPTION_PLACEHOLDER,
+			category: insights?.category ?? "",
+			date: (format) => now.format(format || "YYYY/MM/DD"),
+			images: values?.images ?? [],
+			ports: values?.ports ?? [],
+			networks: values?.networks ?? [],
+			volumes: values?.volumes ?? [],
+			services: (stack.compose?.services ?? []).map((service) => ({
+				name: service.name,
+				image: service.image ?? "",
+				imageName: service.imageName ?? "",
+				tag: service.tag ?? "",
+				ports: service.ports
+					.filter((port) => port.published)
+					.map((port) => formatPort(port)),
+				volumes: service.volumes.map((volume) =>
+					volume.source ? `${volume.source}:${volume.target}` : volume.target,
+				),
+				networks: service.networks,
+				dependsOn: service.dependsOn,
+				restart: service.restart ?? "",
+			})),
+			variables: stack.variables.map((variable) => ({
+				name: variable.name,
+				defaultValue: variable.defaultValue ?? "",
+				exampleValue: variable.exampleValue ?? "",
+				required: variable.required,
+				documented: variable.documented,
+			})),
+			repoPath: stack.path,
+			repoUrl: stack.url,
+			lastCommit: lastCommit?.sha.slice(0, 7) ?? "",
+			lastCommitUrl: lastCommit?.url ?? "",
+			lastCommitAuthor: lastCommit?.author ?? "",
+			lastCommitMessage: lastCommit ? getCommitSubject(lastCommit.message) : "",
+			lastChanged: (format) =>
+				lastCommit
+					? moment(lastCommit.date).format(format || "YYYY-MM-DD")
+					: "",
+			commits: stack.commits.map((commit) => ({
+				name: commit.sha.slice(0, 7),
+				sha: commit.sha,
+				url: commit.url,
+				author: commit.author,
+				message: getCommitSubject(commit.message),
+				date: moment(commit.date).format("YYYY-MM-DD"),
+			})),
+			recentChanges: wrapManagedRegion(
+				"changes",
+				renderCommitList(stack.commits),
+			),
+			source: getSourceLabel(stack.source),
+			servicesTable: wrapManagedRegion(
+				"services",
+				stack.compose
+					? renderServicesTable(stack.compose)
+					: "_Compose file could not be parsed._",
+			),
+			envTable: wrapManagedRegion("env", renderEnvTable(stack.variables)),
+			stackFiles: stack.files
+				.map((file) =>
+					renderCodeBlock(
+						this.getStackFileLanguage(file),
+						file.relativePath,
+						file.content,
+					),
+				)
+				.join("\n\n"),
+			mergedCompose: renderCodeBlock(
+				"yaml",
+				RESOLVED_COMPOSE_TITLE,
+				stack.resolvedContent ?? stack.content,
+			),
+		};
+	}
+
+	private getStackFileLanguage(file: StackFile): string {
+		return isComposeFile(file) ? "yaml" : "ini";
 	}
 
 	/**
-	 * Processes date variables in the template, supporting both {{date}} and {{date:format}} syntax.
+	 * Processes date variables in file name prefixes and suffixes, supporting both {{date}}
+	 * and {{date:format}} syntax.
 	 */
 	private processDateVariables(template: string): string {
 		const now = moment();
@@ -332,19 +1223,13 @@ export default class ObsidianService {
 	}
 
 	/**
-	 * Processes YAML code blocks in the template by updating compose.yaml blocks with stack content.
+	 * Points YAML code blocks with compose title in the template to the stack content.
 	 */
-	private processYamlCodeBlocks(
-		template: string,
-		stackContent: string,
-	): string {
-		// Matches: YAML Codeblock with title: compose.yaml, docker-compose.yaml, compose.yml, docker-compose.yml
-		const yamlCodeBlockRegex =
-			/^```ya?ml\s+title=(docker-)?compose\.ya?ml\r?\n([\s\S]*?)\n```/gm;
-
-		return template.replace(yamlCodeBlockRegex, () => {
-			return `\`\`\`yaml title=compose.yaml\n${stackContent.trim()}\n\`\`\``;
-		});
+	private processYamlCodeBlocks(template: string): string {
+		return template.replace(
+			new RegExp(COMPOSE_CODE_BLOCK_REGEX.source, "gm"),
+			() => "```yaml title=compose.yaml\n{{stackContent}}\n```",
+		);
 	}
 
 	/**
@@ -0,0 +1,185 @@
+import GitProvider, {
+	type ChangeProposal,
+	type CommitInfo,
+	encodeBase64,
+	type RepositoryFile,
+} from "src/providers/provider";
+
+type GiteaTree = {
+	tree: { path: string; sha: string; type: string }[];
+	truncated: boolean;
+	page: number;
+};
+
+type GiteaCommit = {
+	sha: string;
+	html_url: string;
+	commit: {
+		message: string;
+		author: { name: string; date: string };
+	};
+};
+
+/**
+ * Provider for Gitea and Forgejo instances, which share the same API.
+ */
+export default class GiteaProvider extends GitProvider {
+	/** Segment of file URLs for the type of the source ref, resolved when listing files. */
+	private refSegment: "branch" | "tag" | "commit" = "branch";
+
+	protected getHeaders(accept = "application/json") {
+		const headers: Record<string, string> = { Accept: accept };
+		if (this.source.token) {
+			headers.Authorization = `token ${this.source.token}`;
+		}
+		return headers;
+	}
+
+	private getRepoUrl(): string {
+		const baseUrl = this.getBaseUrl("");
+		if (!baseUrl) {
+			throw new Error("Base URL is required for Gitea/Forgejo sources");
+		}
+		return `${baseUrl}/api/v1/repos/${this.source.owner}/${this.source.repo}`;
+	}
+
+	getFileUrl(path: string): string {
+		const baseUrl = this.getBaseUrl("");
+		return `${baseUrl}/${this.source.owner}/${this.source.repo}/src/${this.refSegment}/${this.encodePath(this.source.ref)}/${this.encodePath(path)}`;
+	}
+
+	/**
+	 * Resolves whether the source ref is a branch, a tag or otherwise a commit SHA, as the
+	 * web interface has a different file URL for each.
+	 */
+	private async resolveRefSegment(): Promise<"branch" | "tag" | "commit"> {
+		const ref = encodeURIComponent(this.source.ref);
+		for (const [segment, url] of [
+			["branch", `${this.getRepoUrl()}/branches/${ref}`],
+			["tag", `${this.getRepoUrl()}/tags/${ref}`],
+		] as const) {
+			const res = await fetch(url, { headers: this.getHeaders() });
+			if (res.ok) {
+				return segment;
+			}
+			if (res.status !== 404) {
+				throw new Error(
+					`Failed to fetch ${url}: ${res.status} ${res.statusText}`,
+				);
+			}
+		}
+		return "commit";
+	}
+
+	/**
+	 * Lists all files of the configured ref, requesting further pages while the
+	 * recursive tree listing is truncated.
+	 */
+	async listFiles(): Promise<RepositoryFile[]> {
+		this.refSegment = await this.resolveRefSegment();
+		let files: RepositoryFile[] = [];
+		let page = 1;
+		let truncated = true;
+
+		while (truncated) {
+			const params = new URLSearchParams({
+				recursive: "true",
+				per_page: "1000",
+				page: String(page),
+			});
+			const url = `${this.getRepoUrl()}/git/trees/${encodeURIComponent(this.source.ref)}?${params}`;
+			const result = await this.fetchJsonWithCache(url, (body) => {
+				const tree = body as GiteaTree;
+				return {
+					files: (tree.tree ?? [])
+						.filter((item) => item.type === "blob")
+						.map((item) => ({ path: item.path, sha: item.sha })),
+					truncated: tree.truncated,
+				};
+			});
+			files = files.concat(result.files);
+			truncated = result.truncated && result.files.length > 0;
+			page++;
+		}
+
+		return files;
+	}
+
+	async fetchFileContent(file: RepositoryFile): Promise<string> {
+		const res = await this.fetchOk(
+			`${this.getRepoUrl()}/git/blobs/${file.sha}`,
+		);
+		const { content } = (await res.json()) as { content: string };
+		return decodeBase64(content);
+	}
+
+	async fetchCommits(path: string, limit: number): Promise<CommitInfo[]> {
+		const params = new URLSearchParams({
+			sha: this.source.ref,
+			path,
+			limit: String(limit),
+			stat: "false",
+		});
+		const res = await this.fetchOk(`${this.getRepoUrl()}/commits?${params}`);
+		const commits = (await res.json()) as GiteaCommit[];
+
+		return commits.map((commit) => ({
+			sha: commit.sha,
+			date: commit.commit.author.date,
+			author: commit.commit.author.name,
+			message: commit.commit.message,
+			url: commit.html_url,
+		}));
+	}
+
+	/**
+	 * Updates the file on a new branch with the contents API, which creates the branch and
+	 * fails when the file no longer has the given blob SHA, then opens the pull request. The
+	 * branch is deleted again when opening the pull request fails.
+	 */
+	async proposeChange(proposal: ChangeProposal): Promise<string> {
+		const repoUrl = this.getRepoUrl();
+		await this.checkRefIsBranch(
+			`${repoUrl}/branches/${encodeURIComponent(this.source.ref)}`,
+		);
+		await this.sendJson(
+			"PUT",
+			`${repoUrl}/contents/${this.encodePath(proposal.path)}`,
+			{
+				message: proposal.title,
+				content: encodeBase64(proposal.content),
+				sha: proposal.sha,
+				branch: this.source.ref,
+				new_branch: proposal.branch,
+			},
+			// A blob SHA mismatch is answered with 409 or 422 depending on the version
+			{ path: proposal.path, statuses: [409, 422] },
+		);
+		return await this.deleteBranchOnError(
+			proposal.branch,
+			`${repoUrl}/branches/${encodeURIComponent(proposal.branch)}`,
+			async () => {
+				const pull = await this.sendJson<{ html_url: string }>(
+					"POST",
+					`${repoUrl}/pulls`,
+					{
+						title: proposal.title,
+						body: proposal.body,
+						head: proposal.branch,
+						base: this.source.ref,
+					},
+				);
+				return pull.html_url;
+			},
+		);
+	}
+}
+
+/**
+ * Decodes base64 encoded UTF-8 content as returned by the blob API.
+ */
+function decodeBase64(content: string): string {
+	const binary = atob(content.replace(/\s/g, ""));
+	const bytes = Uint8Array.from(binary, (char) => char.charCodeAt(0));
+	return new TextDecoder().decode(bytes);
+}
@@ -0,0 +1,175 @@
+import GitProvider, {
+	type ChangeProposal,
+	type CommitInfo,
+	encodeBase64,
+	type RepositoryFile,
+} from "src/providers/provider";
+
+type GithubTree = {
+	tree: { path: string; sha: string; type: string }[];
+	truncated: boolean;
+};
+
+type GithubCommit = {
+	sha: string;
+	html_url: string;
+	commit: {
+		message: string;
+		author: { name: string; date: string };
+	};
+};
+
+export default class GithubProvider extends GitProvider {
+	protected getHeaders(accept = "application/vnd.github+json") {
+		const headers: Record<string, string> = { Accept: accept };
+		if (this.source.token) {
+			headers.Authorization = `token ${this.source.token}`;
+		}
+		return headers;
+	}
+
+	private getRepoUrl(): string {
+		const baseUrl = this.getBaseUrl("https://api.github.com");
+		return `${baseUrl}/repos/${this.source.owner}/${this.source.repo}`;
+	}
+
+	/**
+	 * GitHub Enterprise serves its API under /api/v3 of the web URL.
+	 */
+	getFileUrl(path: string): string {
+		const apiUrl = this.getBaseUrl("https://api.github.com");
+		const webUrl =
+			apiUrl === "https://api.github.com"
+				? "https://github.com"
+				: apiUrl.replace(/\/api\/v3$/, "");
+		return `${webUrl}/${this.source.owner}/${this.source.repo}/blob/${this.source.ref}/${this.encodePath(path)}`;
+	}
+
+	/**
+	 * Lists all files of the configured ref, usually with a single recursive tree listing.
+	 */
+	async listFiles(): Promise<RepositoryFile[]> {
+		return await this.listTree(this.source.ref);
+	}
+
+	/**
+	 * Lists the blobs of a tree with one recursive listing. GitHub truncates the listing of
+	 * large trees, in which case the direct children of the tree are listed instead and each
+	 * subtree is listed the same way. Throws when even the direct children are truncated, so
+	 * stacks never silently go missing.
+	 */
+	private async listTree(tree: string): Promise<RepositoryFile[]> {
+		const treeUrl = `${this.getRepoUrl()}/git/trees/${encodeURIComponent(tree)}`;
+		// Truncated listings are cached as null, as they are not used
+		const files = await this.fetchJsonWithCache(
+			`${treeUrl}?recursive=1`,
+			(body) => {
+				const listing = body as GithubTree;
+				return listing.truncated ? null : getBlobs(listing);
+			},
+		);
+		if (files) {
+			return files;
+		}
+
+		const res = await this.fetchOk(treeUrl);
+		const listing = (await res.json()) as GithubTree;
+		if (listing.truncated) {
+			throw new Error(`Tree listing of ${treeUrl} is truncated`);
+		}
+		let allFiles = getBlobs(listing);
+		for (const item of listing.tree) {
+			if (item.type === "tree") {
+				const subtreeFiles = await this.listTree(item.sha);
+				allFiles = allFiles.concat(
+					subtreeFiles.map((file) => ({
+						...file,
+						path: `${item.path}/${file.path}`,
+					})),
+				);
+			}
+		}
+		return allFiles;
+	}
+
+	async fetchFileContent(file: RepositoryFile): Promise<string> {
+		const res = await this.fetchOk(
+			`${this.getRepoUrl()}/git/blobs/${file.sha}`,
+			"application/vnd.github.raw",
+		);
+		return await res.text();
+	}
+
+	async fetchCommits(path: string, limit: number): Promise<CommitInfo[]> {
+		const params = new URLSearchParams({
+			sha: this.source.ref,
+			path,
+			per_page: String(limit),
+		});
+		const res = await this.fetchOk(`${this.getRepoUrl()}/commits?${params}`);
+		const commits = (await res.json()) as GithubCommit[];
+
+		return commits.map((commit) => ({
+			sha: commit.sha,
+			date: commit.commit.author.date,
+			author: commit.commit.author.name,
+			message: commit.commit.message,
+			url: commit.html_url,
+		}));
+	}
+
+	/**
+	 * Creates the branch from the commit of the ref, updates the file on it with the contents
+	 * API, which fails when the file no longer has the given blob SHA, then opens the pull
+	 * request. The branch is deleted again when a later step fails.
+	 */
+	async proposeChange(proposal: ChangeProposal): Promise<string> {
+		const repoUrl = this.getRepoUrl();
+		await this.checkRefIsBranch(
+			`${repoUrl}/branches/${encodeURIComponent(this.source.ref)}`,
+		);
+		const res = await this.fetchOk(
+			`${repoUrl}/commits/${encodeURIComponent(this.source.ref)}`,
+		);
+		const { sha } = (await res.json()) as { sha: string };
+
+		await this.sendJson("POST", `${repoUrl}/git/refs`, {
+			ref: `refs/heads/${proposal.branch}`,
+			sha,
+		});
+		return await this.deleteBranchOnError(
+			proposal.branch,
+			`${repoUrl}/git/refs/heads/${this.encodePath(proposal.branch)}`,
+			async () => {
+				await this.sendJson(
+					"PUT",
+					`${repoUrl}/contents/${this.encodePath(proposal.path)}`,
+					{
+						message: proposal.title,
+						content: encodeBase64(proposal.content),
+						sha: proposal.sha,
+						branch: proposal.branch,
+					},
+					{ path: proposal.path, statuses: [409] },
+				);
+				const pull = await this.sendJson<{ html_url: string }>(
+					"POST",
+					`${repoUrl}/pulls`,
+					{
+						title: proposal.title,
+						body: proposal.body,
+						head: proposal.branch,
+						base: this.source.ref,
+					},
+				);
+				return pull.html_url;
+			},
+		);
+	}
+}
+
+function getBlobs(listing: GithubTree): RepositoryFile[] {
+	return listing.tree
+		.filter((item) => item.type === "blob")
+		.map((item) => ({ path: item.path, sha: item.sha }));
+}
@@ -0,0 +1,169 @@
+import GitProvider, {
+	ChangeConflictError,
+	type ChangeProposal,
+	type CommitInfo,
+	type RepositoryFile,
+} from "src/providers/provider";
+
+type GitlabTreeItem = {
+	id: string;
+	path: string;
+	type: string;
+};
+
+type GitlabCommit = {
+	id: string;
+	authored_date: string;
+	author_name: string;
+	message: string;
+	web_url: string;
+};
+
+export default class GitlabProvider extends GitProvider {
+	protected getHeaders(accept = "application/json") {
+		const headers: Record<string, string> = { Accept: accept };
+		if (this.source.token) {
+			headers["PRIVATE-TOKEN"] = this.source.token;
+		}
+		return headers;
+	}
+
+	private getProjectUrl(): string {
+		const baseUrl = this.getBaseUrl("https://gitlab.com");
+		const projectId = encodeURIComponent(
+			`${this.source.owner}/${this.source.repo}`,
+		);
+		return `${baseUrl}/api/v4/projects/${projectId}`;
+	}
+
+	getFileUrl(path: string): string {
+		const baseUrl = this.getBaseUrl("https://gitlab.com");
+		return `${baseUrl}/${this.source.owner}/${this.source.repo}/-/blob/${this.source.ref}/${this.encodePath(path)}`;
+	}
+
+	/**
+	 * Lists all files of the configured ref, following the keyset pagination of the tree API.
+	 */
+	async listFiles(): Promise<RepositoryFile[]> {
+		const params = new URLSearchParams({
+			ref: this.source.ref,
+			recursive: "true",
+			pagination: "keyset",
+			per_page: "100",
+		});
+		let url: string | null =
+			`${this.getProjectUrl()}/repository/tree?${params}`;
+		let files: RepositoryFile[] = [];
+
+		while (url) {
+			const page: { files: RepositoryFile[]; next: string | null } =
+				await this.fetchJsonWithCache(url, (body, res) => ({
+					files: (body as GitlabTreeItem[])
+						.filter((item) => item.type === "blob")
+						.map((item) => ({ path: item.path, sha: item.id })),
+					next: getNextLink(res.headers.get("Link")),
+				}));
+			files = files.concat(page.files);
+			url = page.next;
+		}
+
+		return files;
+	}
+
+	async fetchFileContent(file: RepositoryFile): Promise<string> {
+		const res = await this.fetchOk(
+			`${this.getProjectUrl()}/repository/blobs/${file.sha}/raw`,
+			"text/plain",
+		);
+		return await res.text();
+	}
+
+	async fetchCommits(path: string, limit: number): Promise<CommitInfo[]> {
+		const params = new URLSearchParams({
+			ref_name: this.source.ref,
+			path,
+			per_page: String(limit),
+		});
+		const res = await this.fetchOk(
+			`${this.getProjectUrl()}/repository/commits?${params}`,
+		);
+		const commits = (await res.json()) as GitlabCommit[];
+
+		return commits.map((commit) => ({
+			sha: commit.id,
+			date: commit.authored_date,
+			author: commit.author_name,
+			message: commit.message,
+			url: commit.web_url,
+		}));
+	}
+
+	/**
+	 * Creates the branch and the commit at once with the commits API, then opens the merge
+	 * request. The commit is based on the last commit of the file, so GitLab rejects it when
+	 * the file changed in the meantime. The branch is deleted again when opening the merge
+	 * request fails.
+	 */
+	async proposeChange(proposal: ChangeProposal): Promise<string> {
+		const projectUrl = this.getProjectUrl();
+		await this.checkRefIsBranch(
+			`${projectUrl}/repository/branches/${encodeURIComponent(this.source.ref)}`,
+		);
+		const params = new URLSearchParams({ ref: this.source.ref });
+		const res = await this.fetchOk(
+			`${projectUrl}/repository/files/${encodeURIComponent(proposal.path)}?${params}`,
+		);
+		const file = (await res.json()) as {
+			blob_id: string;
+			last_commit_id: string;
+		};
+		if (file.blob_id !== proposal.sha) {
+			throw new ChangeConflictError(proposal.path);
+		}
+
+		await this.sendJson(
+			"POST",
+			`${projectUrl}/repository/commits`,
+			{
+				branch: proposal.branch,
+				start_branch: this.source.ref,
+				commit_message: proposal.title,
+				actions: [
+					{
+						action: "update",
+						file_path: proposal.path,
+						content: proposal.content,
+						last_commit_id: file.last_commit_id,
+					},
+				],
+			},
+			// GitLab answers a file changed since `last_commit_id` with 400
+			{ path: proposal.path, statuses: [400] },
+		);
+		return await this.deleteBranchOnError(
+			proposal.branch,
+			`${projectUrl}/repository/branches/${encodeURIComponent(proposal.branch)}`,
+			async () => {
+				const mergeRequest = await this.sendJson<{ web_url: string }>(
+					"POST",
+					`${projectUrl}/merge_requests`,
+					{
+						source_branch: proposal.branch,
+						target_branch: this.source.ref,
+						title: proposal.title,
+						description: proposal.body,
+					},
+				);
+				return mergeRequest.web_url;
+			},
+		);
+	}
+}
+
+/**
+ * Extracts the URL of the next page from a `Link` response header.
+ */
+function getNextLink(linkHeader: string | null): string | null {
+	const match = linkHeader?.match(/<([^>]+)>;\s*rel="next"/);
+	return match ? match[1] : null;
+}
@@ -0,0 +1,32 @@
+import type { RepositorySource } from "src/github";
+import type DockerToObsiPlugin from "src/main";
+import GiteaProvider from "src/providers/gitea";
+import GithubProvider from "src/providers/github";
+import GitlabProvider from "src/providers/gitlab";
+import LocalProvider from "src/providers/local";
+import type GitProvider from "src/providers/provider";
+
+export type ProviderType = "github" | "gitlab" | "gitea" | "local";
+
+export const PROVIDER_NAMES: Record<ProviderType, string> = {
+	github: "GitHub",
+	gitlab: "GitLab",
+	gitea: "Gitea / Forgejo",
+	local: "Local directory",
+};
+
+export function createProvider(
+	plugin: DockerToObsiPlugin,
+	source: RepositorySource,
+): GitProvider {
+	switch (source.provider) {
+		case "gitlab":
+			return new GitlabProvider(plugin, source);
+		case "gitea":
+			return new GiteaProvider(plugin, source);
+		case "local":
+			return new LocalProvider(plugin, source);
+		default:
+			return new GithubProvider(plugin, source);
+	}
+}
@@ -0,0 +1,81 @@
+import { promises as fs } from "fs";
+import * as nodePath from "path";
+import { pathToFileURL } from "url";
+import GitProvider, {
+	type ChangeProposal,
+	type CommitInfo,
+	type RepositoryFile,
+} from "src/providers/provider";
+
+/** Directories that never contain compose files worth syncing. */
+const IGNORED_DIRECTORIES = new Set([".git", "node_modules"]);
+
+/**
+ * Provider reading compose files from a directory on disk, e.g. a cloned repository.
+ * No network access or token is needed.
+ */
+export default class LocalProvider extends GitProvider {
+	protected getHeaders() {
+		return {};
+	}
+
+	private getRootDirectory(): string {
+		const directory = this.source.directory.trim();
+		if (!directory) {
+			throw new Error("Directory is required for local sources");
+		}
+		return directory;
+	}
+
+	getFileUrl(path: string): string {
+		return pathToFileURL(nodePath.join(this.getRootDirectory(), path)).href;
+	}
+
+	/**
+	 * Walks the directory (or its configured sub-path). The SHA of local files is left
+	 * empty since it is only known once the content is read.
+	 */
+	async listFiles(): Promise<RepositoryFile[]> {
+		const root = this.getRootDirectory();
+		const start = nodePath.join(root, this.source.path);
+
+		const files: RepositoryFile[] = [];
+		const walk = async (directory: string) => {
+			const entries = await fs.readdir(directory, { withFileTypes: true });
+			for (const entry of entries) {
+				const fullPath = nodePath.join(directory, entry.name);
+				if (entry.isDirectory()) {
+					if (!IGNORED_DIRECTORIES.has(entry.name)) {
+						await walk(fullPath);
+					}
+				} else if (entry.isFile()) {
+					files.push({
+						path: nodePath
+							.relative(root, fullPath)
+							.split(nodePath.sep)
+							.join("/"),
+						sha: "",
+					});
+				}
+			}
+		};
+		await walk(start);
+
+		return files;
+	}
+
+	async fetchFileContent(file: RepositoryFile): Promise<string> {
+		return await fs.readFile(
+			nodePath.join(this.getRootDirectory(), file.path),
+			"utf8",
+		);
+	}
+
+	async fetchCommits(path: string, limit: number): Promise<CommitInfo[]> {
+		return [];
+	}
+
+	async proposeChange(proposal: ChangeProposal): Promise<string> {
+		throw new Error("Proposing changes is not supported for local sources");
+	}
+}
@@ -0,0 +1,240 @@
+import type { RepositorySource } from "src/github";
+import type DockerToObsiPlugin from "src/main";
+
+export type RepositoryFile = {
+	path: string;
+	/** Git blob SHA of the file. */
+	sha: string;
+};
+
+export type CommitInfo = {
+	sha: string;
+	date: string;
+	author: string;
+	message: string;
+	url: string;
+};
+
+/**
+ * A change of a single file, committed to a new branch and proposed for review.
+ */
+export type ChangeProposal = {
+	path: string;
+	content: string;
+	/** Blob SHA the change is based on, so the provider rejects concurrent changes. */
+	sha: string;
+	branch: string;
+	title: string;
+	body: string;
+};
+
+/**
+ * A change proposal that failed after its branch was created, and whose branch could not be
+ * deleted either. The branch has to be deleted by hand.
+ */
+export class LeftoverBranchError extends Error {
+	readonly branch: string;
+
+	constructor(branch: string, cause: unknown) {
+		super(
+			`Branch ${branch} was left behind: ${cause instanceof Error ? cause.message : cause}`,
+		);
+		this.name = "LeftoverBranchError";
+		this.branch = branch;
+	}
+}
+
+/**
+ * A change proposal rejected because the file changed in the repository since the change was
+ * based on it.
+ */
+export class ChangeConflictError extends Error {
+	constructor(path: string) {
+		super(`${path} changed in the repository since the change was based on it`);
+		this.name = "ChangeConflictError";
+	}
+}
+
+/**
+ * Base class for Git hosting providers. A provider knows how to list the files of a
+ * source, fetch their content, read the commit history of a file and propose changes.
+ */
+export default abstract class GitProvider {
+	protected readonly plugin: DockerToObsiPlugin;
+	protected readonly source: RepositorySource;
+	/** URLs of the responses kept in the plugin cache, so older responses can be pruned. */
+	readonly cachedUrls = new Set<string>();
+
+	constructor(plugin: DockerToObsiPlugin, source: RepositorySource) {
+		this.plugin = plugin;
+		this.source = source;
+	}
+
+	/**
+	 * Lists every file of the source ref, with paths relative to the repository root.
+	 */
+	abstract listFiles(): Promise<RepositoryFile[]>;
+
+	/**
+	 * Fetches the raw content of a file listed by {@link listFiles}.
+	 */
+	abstract fetchFileContent(file: RepositoryFile): Promise<string>;
+
+	/**
+	 * Fetches the latest commits touching the given path, newest first.
+	 */
+	abstract fetchCommits(path: string, limit: number): Promise<CommitInfo[]>;
+
+	/**
+	 * Commits the change to a new branch created from the source ref and opens a pull (or
+	 * merge) request against the ref. Returns the URL of the request. Throws a
+	 * {@link ChangeConflictError} when the file no longer has the blob SHA of the proposal.
+	 */
+	abstract proposeChange(proposal: ChangeProposal): Promise<string>;
+
+	/**
+	 * Returns the URL of a file in the web interface of the provider.
+	 */
+	abstract getFileUrl(path: string): string;
+
+	protected abstract getHeaders(accept?: string): Record<string, string>;
+
+	/**
+	 * Throws when the source ref is not a branch, as pull requests can only target branches.
+	 * `branchUrl` is the API URL of the ref as a branch, which answers 404 for tags and
+	 * commit SHAs.
+	 */
+	protected async checkRefIsBranch(branchUrl: string) {
+		const res = await fetch(branchUrl, { headers: this.getHeaders() });
+		if (res.status === 404) {
+			throw new Error(
+				`Changes can only be proposed against a branch, but ${this.source.ref} is not a branch of ${this.source.owner}/${this.source.repo}`,
+			);
+		}
+		if (!res.ok) {
+			throw new Error(
+				`Failed to fetch ${branchUrl}: ${res.status} ${res.statusText}`,
+			);
+		}
+	}
+
+	/**
+	 * Returns the configured base URL without trailing slash, or the given default.
+	 */
+	protected getBaseUrl(defaultUrl: string): string {
+		return (this.source.baseUrl.trim() || defaultUrl).replace(/\/+$/, "");
+	}
+
+	/**
+	 * Encodes the segments of a path for use in a URL, keeping the slashes.
+	 */
+	protected encodePath(path: string): string {
+		return path.split("/").map(encodeURIComponent).join("/");
+	}
+
+	protected async fetchOk(url: string, accept?: string): Promise<Response> {
+		const res = await fetch(url, { headers: this.getHeaders(accept) });
+		if (!res.ok) {
+			throw new Error(
+				`Failed to fetch ${url}: ${res.status} ${res.statusText}`,
+			);
+		}
+		return res;
+	}
+
+	/**
+	 * Sends a JSON body and returns the parsed JSON response. Responses with one of the
+	 * `conflict` statuses throw a {@link ChangeConflictError} for the given path.
+	 */
+	protected async sendJson<T>(
+		method: string,
+		url: string,
+		body: unknown,
+		conflict?: { path: string; statuses: number[] },
+	): Promise<T> {
+		const res = await fetch(url, {
+			method,
+			headers: { ...this.getHeaders(), "Content-Type": "application/json" },
+			body: JSON.stringify(body),
+		});
+		if (conflict?.statuses.includes(res.status)) {
+			throw new ChangeConflictError(conflict.path);
+		}
+		if (!res.ok) {
+			throw new Error(
+				`Failed to ${method} ${url}: ${res.status} ${res.statusText} ${await res.text()}`,
+			);
+		}
+		return (await res.json()) as T;
+	}
+
+	/**
+	 * Runs the steps following the creation of a branch, and deletes the branch when they
+	 * fail so failed proposals leave nothing behind. Throws a {@link LeftoverBranchError} when
+	 * the branch can not be deleted.
+	 */
+	protected async deleteBranchOnError<T>(
+		branch: string,
+		deleteUrl: string,
+		steps: () => Promise<T>,
+	): Promise<T> {
+		try {
+			return await steps();
+		} catch (error) {
+			const res = await fetch(deleteUrl, {
+				method: "DELETE",
+				headers: this.getHeaders(),
+			}).catch((deleteError) => {
+				console.error(`Failed to delete branch ${branch}:`, deleteError);
+				return null;
+			});
+			if (!res?.ok) {
+				throw new LeftoverBranchError(branch, error);
+			}
+			throw error;
+		}
+	}
+
+	/**
+	 * Fetches a JSON resource using the ETag of the previous response, so unchanged
+	 * resources are answered with a 304 and served from the plugin cache.
+	 */
+	protected async fetchJsonWithCache<T>(
+		url: string,
+		transform: (body: unknown, res: Response) => T,
+	): Promise<T> {
+		this.cachedUrls.add(url);
+		const cached = this.plugin.cache.responses[url];
+		const headers = this.getHeaders();
+		if (cached) {
+			headers["If-None-Match"] = cached.etag;
+		}
+
+		const res = await fetch(url, { headers });
+		if (res.status === 304 && cached) {
+			return cached.body as T;
+		}
+		if (!res.ok) {
+			throw new Error(
+				`Failed to fetch ${url}: ${res.status} ${res.statusText}`,
+			);
+		}
+
+		const body = transform(await res.json(), res);
+		const etag = res.headers.get("ETag");
+		if (etag) {
+			this.plugin.cache.responses[url] = { etag, body };
+		}
+		return body;
+	}
+}
+
+/**
+ * Encodes UTF-8 content as base64, as expected by the contents APIs.
+ */
+export function encodeBase64(content: string): string {
+	const bytes = new TextEncoder().encode(content);
+	let binary = "";
+	bytes.forEach((byte) => (binary += String.fromCharCode(byte)));
+	return btoa(binary);
+}
@@ -0,0 +1,314 @@
+import {
+	afterAll,
+	beforeAll,
+	beforeEach,
+	describe,
+	expect,
+	it,
+} from "bun:test";
+import type { RepositorySource } from "src/github";
+import type DockerToObsiPlugin from "src/main";
+import type { ProviderType } from "src/providers";
+import GiteaProvider from "src/providers/gitea";
+import GithubProvider from "src/providers/github";
+import GitlabProvider from "src/providers/gitlab";
+import MockApiServer, { type MockResponse } from "test/mockServer";
+
+const server = new MockApiServer();
+let plugin: DockerToObsiPlugin;
+
+function createSource(provider: ProviderType): RepositorySource {
+	return {
+		id: provider,
+		provider,
+		baseUrl: server.url,
+		owner: "owner",
+		repo: "repo",
+		ref: "main",
+		path: "",
+		token: "secret-token",
+		directory: "",
+	};
+}
+
+beforeAll(() => server.start());
+afterAll(() => server.stop());
+beforeEach(() => {
+	plugin = { cache: { responses: {} } } as unknown as DockerToObsiPlugin;
+});
+
+describe("GithubProvider", () => {
+	const tree = {
+		tree: [
+			{ path: "apps", sha: "t1", type: "tree" },
+			{ path: "apps/compose.yaml", sha: "b1", type: "blob" },
+		],
+		truncated: false,
+	};
+
+	it("lists the blobs of the recursive tree", async () => {
+		server.reset(() => ({ body: tree }));
+		const provider = new GithubProvider(plugin, createSource("github"));
+
+		expect(await provider.listFiles()).toEqual([
+			{ path: "apps/compose.yaml", sha: "b1" },
+		]);
+		expect(server.requests.map((request) => request.path)).toEqual([
+			"/repos/owner/repo/git/trees/main?recursive=1",
+		]);
+		expect(server.requests[0].headers.authorization).toBe("token secret-token");
+	});
+
+	it("lists the subtrees of truncated listings one by one", async () => {
+		const listings: Record<string, unknown> = {
+			"/repos/owner/repo/git/trees/main?recursive=1": {
+				tree: [],
+				truncated: true,
+			},
+			"/repos/owner/repo/git/trees/main": {
+				tree: [
+					{ path: "apps", sha: "t1", type: "tree" },
+					{ path: "compose.yaml", sha: "b0", type: "blob" },
+				],
+				truncated: false,
+			},
+			"/repos/owner/repo/git/trees/t1?recursive=1": {
+				tree: [{ path: "web/compose.yaml", sha: "b1", type: "blob" }],
+				truncated: false,
+			},
+		};
+		server.reset((request) =>
+			request.path in listings
+				? { body: listings[request.path] }
+				: { status: 404 },
+		);
+		const provider = new GithubProvider(plugin, createSource("github"));
+
+		expect(await provider.listFiles()).toEqual([
+			{ path: "compose.yaml", sha: "b0" },
+			{ path: "apps/web/compose.yaml", sha: "b1" },
+		]);
+	});
+
+	it("fails when the children of a tree are truncated", async () => {
+		server.reset(() => ({ body: { tree: [], truncated: true } }));
+		const provider = new GithubProvider(plugin, createSource("github"));
+
+		await expect(provider.listFiles()).rejects.toThrow(
+			`${server.url}/repos/owner/repo/git/trees/main is truncated`,
+		);
+	});
+
+	it("serves unchanged listings from the cache on 304", async () => {
+		server.reset((request) =>
+			request.headers["if-none-match"] === '"v1"'
+				? { status: 304 }
+				: { headers: { ETag: '"v1"' }, body: tree },
+		);
+
+		const files = await new GithubProvider(
+			plugin,
+			createSource("github"),
+		).listFiles();
+		const cachedFiles = await new GithubProvider(
+			plugin,
+			createSource("github"),
+		).listFiles();
+
+		expect(cachedFiles).toEqual(files);
+		expect(
+			server.requests.map((request) => request.headers["if-none-match"]),
+		).toEqual([undefined, '"v1"']);
+	});
+
+	it("refetches listings that changed since the cached response", async () => {
+		let etag = '"v1"';
+		server.reset((request) =>
+			request.headers["if-none-match"] === etag
+				? { status: 304 }
+				: {
+						headers: { ETag: etag },
+						body: {
+							tree: [{ path: `${etag}.yaml`, sha: etag, type: "blob" }],
+							truncated: false,
+						},
+					},
+		);
+		const provider = new GithubProvider(plugin, createSource("github"));
+
+		await provider.listFiles();
+		etag = '"v2"';
+		expect(await provider.listFiles()).toEqual([
+			{ path: '"v2".yaml', sha: '"v2"' },
+		]);
+	});
+});
+
+describe("GitlabProvider", () => {
+	const treePath =
+		"/api/v4/projects/owner%2Frepo/repository/tree?ref=main&recursive=true&pagination=keyset&per_page=100";
+
+	const handlePages = (request: { path: string }): MockResponse =>
+		request.path === treePath
+			? {
+					headers: {
+						ETag: '"page1"',
+						Link: `<${server.url}/api/v4/projects/owner%2Frepo/repository/tree?page_token=next>; rel="next"`,
+					},
+					body: [
+						{ id: "t1", path: "apps", type: "tree" },
+						{ id: "b1", path: "apps/compose.yaml", type: "blob" },
+					],
+				}
+			: {
+					headers: { ETag: '"page2"' },
+					body: [{ id: "b2", path: "web/compose.yaml", type: "blob" }],
+				};
+
+	it("follows the keyset pagination of the tree", async () => {
+		server.reset(handlePages);
+		const provider = new GitlabProvider(plugin, createSource("gitlab"));
+
+		expect(await provider.listFiles()).toEqual([
+			{ path: "apps/compose.yaml", sha: "b1" },
+			{ path: "web/compose.yaml", sha: "b2" },
+		]);
+		expect(server.requests.map((request) => request.path)).toEqual([
+			treePath,
+			"/api/v4/projects/owner%2Frepo/repository/tree?page_token=next",
+		]);
+		expect(server.requests[0].headers["private-token"]).toBe("secret-token");
+	});
+
+	it("serves unchanged pages from the cache on 304", async () => {
+		server.reset((request) =>
+			request.headers["if-none-match"] ? { status: 304 } : handlePages(request),
+		);
+		const provider = new GitlabProvider(plugin, createSource("gitlab"));
+
+		const files = await provider.listFiles();
+		expect(await provider.listFiles()).toEqual(files);
+		expect(
+			server.requests.map((request) => request.headers["if-none-match"]),
+		).toEqual([undefined, undefined, '"page1"', '"page2"']);
+	});
+});
+
+describe("GiteaProvider", () => {
+	const treePath = (page: number) =>
+		`/api/v1/repos/owner/repo/git/trees/main?recursive=true&per_page=1000&page=${page}`;
+
+	const branchPath = "/api/v1/repos/owner/repo/branches/main";
+
+	const handlePages = (request: { path: string }): MockResponse => {
+		if (request.path === branchPath) {
+			return { body: { name: "main" } };
+		}
+		const page = Number(
+			new URL(request.path, server.url).searchParams.get("page"),
+		);
+		return {
+			headers: { ETag: `"page${page}"` },
+			body: {
+				tree: [
+					{ path: `stack${page}/compose.yaml`, sha: `b${page}`, type: "blob" },
+				],
+				truncated: page < 2,
+				page,
+			},
+		};
+	};
+
+	it("requests pages while the tree is truncated", async () => {
+		server.reset(handlePages);
+		const provider = new GiteaProvider(plugin, createSource("gitea"));
+
+		expect(await provider.listFiles()).toEqual([
+			{ path: "stack1/compose.yaml", sha: "b1" },
+			{ path: "stack2/compose.yaml", sha: "b2" },
+		]);
+		expect(server.requests.map((request) => request.path)).toEqual([
+			branchPath,
+			treePath(1),
+			treePath(2),
+		]);
+	});
+
+	it("serves unchanged pages from the cache on 304", async () => {
+		server.reset((request) =>
+			request.headers["if-none-match"] ? { status: 304 } : handlePages(request),
+		);
+		const provider = new GiteaProvider(plugin, createSource("gitea"));
+
+		const files = await provider.listFiles();
+		expect(await provider.listFiles()).toEqual(files);
+		expect(
+			server.requests
+				.filter((request) => request.path !== branchPath)
+				.map((request) => request.headers["if-none-match"]),
+		).toEqual([undefined, undefined, '"page1"', '"page2"']);
+		expect(Object.keys(plugin.cache.responses)).toEqual([
+			`${server.url}${treePath(1)}`,
+			`${server.url}${treePath(2)}`,
+		]);
+	});
+
+	it("links files by the type of the source ref", async () => {
+		const provider = new GiteaProvider(plugin, createSource("gitea"));
+		const listFileUrl = async (ref: string, refs: string[]) => {
+			server.reset((request) =>
+				refs.includes(request.path)
+					? { body: {} }
+					: request.path.includes("/git/trees/")
+						? { body: { tree: [], truncated: false, page: 1 } }
+						: { status: 404, body: {} },
+			);
+			const refProvider = new GiteaProvider(plugin, {
+				...createSource("gitea"),
+				ref,
+			});
+			await refProvider.listFiles();
+			return refProvider.getFileUrl("apps/compose.yaml");
+		};
+
+		expect(provider.getFileUrl("apps/compose.yaml")).toBe(
+			`${server.url}/owner/repo/src/branch/main/apps/compose.yaml`,
+		);
+		expect(
+			await listFileUrl("feature/x", [
+				"/api/v1/repos/owner/repo/branches/feature%2Fx",
+			]),
+		).toBe(`${server.url}/owner/repo/src/branch/feature/x/apps/compose.yaml`);
+		expect(
+			await listFileUrl("v1.0", ["/api/v1/repos/owner/repo/tags/v1.0"]),
+		).toBe(`${server.url}/owner/repo/src/tag/v1.0/apps/compose.yaml`);
+		expect(await listFileUrl("3f2a9c1", [])).toBe(
+			`${server.url}/owner/repo/src/commit/3f2a9c1/apps/compose.yaml`,
+		);
+	});
+
+	it("decodes the base64 content of blobs", async () => {
+		server.reset(() => ({
+			body: {
+				content: Buffer.from("services:\n  app: {}\n").toString("base64"),
+			},
+		}));
+		const provider = new GiteaProvider(plugin, createSource("gitea"));
+
+		expect(
+			await provider.fetchFileContent({ path: "compose.yaml", sha: "b1" }),
+		).toBe("services:\n  app: {}\n");
+		expect(server.requests[0].path).toBe(
+			"/api/v1/repos/owner/repo/git/blobs/b1",
+		);
+	});
+
+	it("requires a base URL", async () => {
+		const provider = new GiteaProvider(plugin, {
+			...createSource("gitea"),
+			baseUrl: "",
+		});
+
+		await expect(provider.listFiles()).rejects.toThrow("Base URL is required");
+	});
+});
@@ -0,0 +1,152 @@
+import { describe, expect, it } from "bun:test";
+import {
+	compileRedactionRules,
+	DEFAULT_SECRET_KEY_PATTERNS,
+	DEFAULT_SECRET_VALUE_PATTERNS,
+	redactSecrets,
+	restoreSecrets,
+} from "src/redact";
+
+const rules = compileRedactionRules({
+	keyPatterns: DEFAULT_SECRET_KEY_PATTERNS,
+	valuePatterns: DEFAULT_SECRET_VALUE_PATTERNS,
+	placeholder: "<redacted>",
+});
+const token = "sk-abcdefghijklmnopqrstuvwxyz";
+
+describe("redactSecrets", () => {
+	it("masks values of secret keys", () => {
+		const { content, redactions } = redactSecrets(
+			"DB_PASSWORD=hunter2\nDB_USER=app\n",
+			rules,
+		);
+
+		expect(content).toBe("DB_PASSWORD=<redacted>\nDB_USER=app\n");
+		expect(redactions).toEqual([
+			{ key: "DB_PASSWORD", line: 1, reason: "key" },
+		]);
+	});
+
+	it("masks arguments of secret options inside a value", () => {
+		const { content, redactions } = redactSecrets(
+			"command: serve --password=hunter2 --api-key secret --verbose",
+			rules,
+		);
+
+		expect(content).toBe(
+			"command: serve --password=<redacted> --api-key <redacted> --verbose",
+		);
+		expect(redactions.map((redaction) => redaction.key)).toEqual([
+			"--password",
+			"--api-key",
+		]);
+	});
+
+	it("masks tokens inside a value or line", () => {
+		const { content, redactions } = redactSecrets(
+			[`entrypoint: /app --header "Bearer ${token}"`, `  - run ${token}`].join(
+				"\n",
+			),
+			rules,
+		);
+
+		expect(content).toBe(
+			[
+				'entrypoint: /app --header "Bearer <redacted>"',
+				"  - run <redacted>",
+			].join("\n"),
+		);
+		expect(redactions).toEqual([
+			{ key: "entrypoint", line: 1, reason: "value" },
+			{ key: "value", line: 2, reason: "value" },
+		]);
+	});
+
+	it("masks literal defaults of secret interpolations", () => {
+		const { content, redactions } = redactSecrets(
+			[
+				"DB_PASSWORD: ${DB_PASSWORD:-hunter2}",
+				'API_TOKEN: "${API_TOKEN?token-value}"',
+				"DATABASE_URL: ${DB_PASSWORD-hunter2}",
+				"command: --password=${DB_PASSWORD:-hunter2}",
+				"DOMAIN: ${DOMAIN:-localhost}",
+				"ADMIN_PASSWORD: ${ADMIN_PASSWORD:-${DB_PASSWORD}}",
+			].join("\n"),
+			rules,
+		);
+
+		expect(content).toBe(
+			[
+				"DB_PASSWORD: ${DB_PASSWORD:-<redacted>}",
+				'API_TOKEN: "${API_TOKEN?<redacted>}"',
+				"DATABASE_URL: ${DB_PASSWORD-<redacted>}",
+				"command: --password=${DB_PASSWORD:-<redacted>}",
+				"DOMAIN: ${DOMAIN:-localhost}",
+				"ADMIN_PASSWORD: ${ADMIN_PASSWORD:-${DB_PASSWORD}}",
+			].join("\n"),
+		);
+		expect(redactions).toEqual([
+			{ key: "DB_PASSWORD", line: 1, reason: "key" },
+			{ key: "API_TOKEN", line: 2, reason: "key" },
+			{ key: "DB_PASSWORD", line: 3, reason: "key" },
+			{ key: "--password", line: 4, reason: "key" },
+		]);
+	});
+
+	it("masks secrets in flow sequences", () => {
+		const { content, redactions } = redactSecrets(
+			[
+				'command: ["serve", "--password", "hunter2", "--verbose"]',
+				"entrypoint: [/app, '--api-key=secret', --port, 80]",
+				"API_TOKENS: [first, 'second', $API_TOKEN]",
+			].join("\n"),
+			rules,
+		);
+
+		expect(content).toBe(
+			[
+				'command: ["serve", "--password", "<redacted>", "--verbose"]',
+				"entrypoint: [/app, '--api-key=<redacted>', --port, 80]",
+				"API_TOKENS: [<redacted>, '<redacted>', $API_TOKEN]",
+			].join("\n"),
+		);
+		expect(redactions).toEqual([
+			{ key: "--password", line: 1, reason: "key" },
+			{ key: "--api-key", line: 2, reason: "key" },
+			{ key: "API_TOKENS", line: 3, reason: "key" },
+			{ key: "API_TOKENS", line: 3, reason: "key" },
+		]);
+	});
+
+	it("keeps interpolated arguments", () => {
+		const content = "command: --password=${DB_PASSWORD} --api-key=$API_KEY";
+
+		expect(redactSecrets(content, rules)).toEqual({
+			content,
+			redactions: [],
+		});
+	});
+});
+
+describe("restoreSecrets", () => {
+	it("restores values masked inside a line", () => {
+		const original = `services:\n  app:\n    command: --password=hunter2 --key ${token}\n`;
+		const edited = redactSecrets(original, rules).content.replace(
+			"app:",
+			"web:",
+		);
+
+		expect(restoreSecrets(edited, original, rules)).toBe(
+			original.replace("app:", "web:"),
+		);
+	});
+
+	it("restores masked defaults and flow sequence items", () => {
+		const original =
+			'DB_PASSWORD: ${DB_PASSWORD:-hunter2}\ncommand: ["--password", "hunter2"]\n';
+
+		expect(
+			restoreSecrets(redactSecrets(original, rules).content, original, rules),
+		).toBe(original);
+	});
+});
@@ -0,0 +1,407 @@
+import { globToRegExp } from "src/utils";
+
+export type RedactionOptions = {
+	/** Glob patterns of variable and property names whose value is secret, e.g. "*_PASSWORD". */
+	keyPatterns: string[];
+	/** Regular expressions matching secret values whatever their key, e.g. API token formats. */
+	valuePatterns: string[];
+	placeholder: string;
+};
+
+export type RedactionRules = {
+	keys: RegExp[];
+	values: RegExp[];
+	placeholder: string;
+};
+
+/**
+ * A masked value. The value itself is never kept so reports can be shown safely.
+ */
+export type Redaction = {
+	key: string;
+	/** 1-based line number in the file. */
+	line: number;
+	/** Whether the value was masked because of its key or because of the value itself. */
+	reason: "key" | "value";
+};
+
+export const DEFAULT_SECRET_KEY_PATTERNS = [
+	"*PASSWORD*",
+	"*PASSWD*",
+	"*_PASS",
+	"*TOKEN*",
+	"*SECRET*",
+	"*API_KEY*",
+	"*ACCESS_KEY*",
+	"*PRIVATE_KEY*",
+];
+
+export const DEFAULT_SECRET_VALUE_PATTERNS = [
+	// GitHub, GitLab, OpenAI and Slack tokens, AWS access keys
+	"\\b(?:ghp|gho|ghu|ghs|ghr|github_pat)_[A-Za-z0-9_]{20,}",
+	"\\bglpat-[A-Za-z0-9_-]{20,}",
+	"\\bsk-[A-Za-z0-9_-]{20,}",
+	"\\bxox[abprs]-[A-Za-z0-9-]{10,}",
+	"\\bAKIA[0-9A-Z]{16}\\b",
+	// URLs with credentials, e.g. "postgres://user:password@db/app"
+	"\\b[a-z][a-z0-9+.-]*://[^/\\s:@]+:[^/\\s@]+@",
+];
+
+// Matches `key: value` and `- KEY=value` lines of compose files and `KEY=value` lines of env files
+const KEY_VALUE_LINE_REGEX =
+	/^(\s*(?:-\s+)?(?:export\s+)?(["']?))([\w.-]+)(\s*[:=][ \t]*)([^\n]*)$/;
+
+// Matches `--option=value` and `--option value` arguments inside a value, e.g. of a command
+const INLINE_OPTION_REGEX =
+	/(^|[\s"'[,])(--?[A-Za-z][\w-]*)(=|[ \t]+)([^\s"',\]-][^\s"',\]]*)/g;
+
+// Values that are not literal secrets: interpolations, YAML block scalars, flow collections,
+// anchors and aliases
+const NON_LITERAL_VALUE_REGEX = /^(?:\$\{[^}]*\}|[|>[{&*!])/;
+
+// Matches the default of `${VAR:-default}` and `${VAR-default}` interpolations and the message
+// of `${VAR:?error}` and `${VAR?error}`, allowing one level of nested braces like env.ts
+const INTERPOLATION_DEFAULT_REGEX =
+	/(\$\{([A-Za-z_][A-Za-z0-9_]*):?[-?])((?:[^{}]|\{[^{}]*\})*)\}/g;
+
+// Matches the quoted and plain items of a flow sequence, e.g. `"--password", x` of an exec
+// form command
+const FLOW_SEQUENCE_ITEM_REGEX =
+	/"(?:[^"\\]|\\.)*"|'(?:[^']|'')*'|[^\s,"'][^,]*?(?=\s*(?:,|$))/g;
+
+// Matches an option given without its argument, e.g. `--password` of `["--password", "x"]`
+const LONE_OPTION_REGEX = /^--?[A-Za-z][\w-]*$/;
+
+/**
+ * Compiles redaction options once per sync. Invalid value patterns are skipped with a warning.
+ */
+export function compileRedactionRules(
+	options: RedactionOptions,
+): RedactionRules {
+	const values: RegExp[] = [];
+	for (const pattern of options.valuePatterns) {
+		try {
+			values.push(new RegExp(pattern));
+		} catch (error) {
+			console.warn(`Invalid secret value pattern "${pattern}":`, error);
+		}
+	}
+
+	return {
+		keys: options.keyPatterns.map(
+			(pattern) => new RegExp(globToRegExp(pattern).source, "i"),
+		),
+		values,
+		placeholder: options.placeholder,
+	};
+}
+
+/**
+ * Splits the raw value of a line into the value itself and what surrounds it: quotes and
+ * trailing comments.
+ */
+function splitValue(
+	rawValue: string,
+	openingQuote: string,
+): { value: string; before: string; after: string } {
+	const trimmed = rawValue.trimEnd();
+	const trailing = rawValue.slice(trimmed.length);
+
+	// `- "KEY=value"`: the quote opened before the key closes after the value
+	if (openingQuote && trimmed.endsWith(openingQuote)) {
+		return {
+			value: trimmed.slice(0, -1),
+			before: "",
+			after: openingQuote + trailing,
+		};
+	}
+
+	const quote = trimmed[0];
+	if ((quote === '"' || quote === "'") && trimmed.length > 1) {
+		const end = trimmed.indexOf(quote, 1);
+		if (end !== -1) {
+			return {
+				value: trimmed.slice(1, end),
+				before: quote,
+				after: trimmed.slice(end) + trailing,
+			};
+		}
+	}
+
+	const commentIndex = trimmed.search(/\s#/);
+	if (commentIndex !== -1) {
+		return {
+			value: trimmed.slice(0, commentIndex),
+			before: "",
+			after: trimmed.slice(commentIndex) + trailing,
+		};
+	}
+	return { value: trimmed, before: "", after: trailing };
+}
+
+function getRedactionReason(
+	key: string,
+	value: string,
+	rules: RedactionRules,
+): Redaction["reason"] | null {
+	if (isSecretKey(key, rules)) {
+		return "key";
+	}
+	if (rules.values.some((pattern) => pattern.test(value))) {
+		return "value";
+	}
+	return null;
+}
+
+function isSecretKey(key: string, rules: RedactionRules): boolean {
+	return rules.keys.some((pattern) => pattern.test(key));
+}
+
+function getOptionName(option: string): string {
+	return option.replace(/^-+/, "").replace(/-/g, "_");
+}
+
+/**
+ * Masks the literal defaults of interpolations like `${DB_PASSWORD:-hunter2}` when the key
+ * they are assigned to or the variable itself is secret. Defaults referencing other
+ * variables are kept. Masked defaults are recorded with the secret key or variable name.
+ */
+function redactInterpolationDefaults(
+	text: string,
+	key: string,
+	rules: RedactionRules,
+): { text: string; keys: { key: string; reason: Redaction["reason"] }[] } {
+	const keys: { key: string; reason: Redaction["reason"] }[] = [];
+	const secretKey = isSecretKey(key, rules);
+
+	const redacted = text.replace(
+		INTERPOLATION_DEFAULT_REGEX,
+		(match, start: string, name: string, value: string) => {
+			if (
+				!value ||
+				value === rules.placeholder ||
+				value.startsWith("$") ||
+				(!secretKey && !isSecretKey(name, rules))
+			) {
+				return match;
+			}
+			keys.push({ key: secretKey ? key : name, reason: "key" });
+			return `${start}${rules.placeholder}}`;
+		},
+	);
+
+	return { text: redacted, keys };
+}
+
+/**
+ * Masks the secrets inside a value or line: arguments of secret options like
+ * `--password=hunter2`, defaults of secret interpolations, and parts matching a value pattern
+ * like `sk-...` tokens. Masked values are recorded with the option name, or `key` for value
+ * patterns.
+ */
+function redactInline(
+	text: string,
+	key: string,
+	rules: RedactionRules,
+	valuePatterns: RegExp[],
+): { text: string; keys: { key: string; reason: Redaction["reason"] }[] } {
+	const keys: { key: string; reason: Redaction["reason"] }[] = [];
+
+	let redacted = text.replace(
+		INLINE_OPTION_REGEX,
+		(
+			match,
+			start: string,
+			option: string,
+			separator: string,
+			value: string,
+		) => {
+			if (
+				value === rules.placeholder ||
+				!isSecretKey(getOptionName(option), rules)
+			) {
+				return match;
+			}
+			if (value.startsWith("$")) {
+				const defaults = redactInterpolationDefaults(value, option, rules);
+				keys.push(...defaults.keys);
+				return `${start}${option}${separator}${defaults.text}`;
+			}
+			keys.push({ key: option, reason: "key" });
+			return `${start}${option}${separator}${rules.placeholder}`;
+		},
+	);
+	const defaults = redactInterpolationDefaults(redacted, key, rules);
+	keys.push(...defaults.keys);
+	redacted = defaults.text;
+	for (const pattern of valuePatterns) {
+		redacted = redacted.replace(pattern, (match) => {
+			if (match === rules.placeholder) {
+				return match;
+			}
+			keys.push({ key, reason: "value" });
+			return rules.placeholder;
+		});
+	}
+
+	return { text: redacted, keys };
+}
+
+/**
+ * Masks the items of a flow sequence like an exec form `["serve", "--password", "hunter2"]`:
+ * every literal item under a secret key, items following a secret option, and secrets inside
+ * other items like in any value.
+ */
+function redactFlowSequence(
+	value: string,
+	key: string,
+	rules: RedactionRules,
+	valuePatterns: RegExp[],
+): { text: string; keys: { key: string; reason: Redaction["reason"] }[] } {
+	const keys: { key: string; reason: Redaction["reason"] }[] = [];
+	const secretKey = isSecretKey(key, rules);
+	let secretOption: string | null = null;
+
+	const items = value.slice(1, -1).replace(FLOW_SEQUENCE_ITEM_REGEX, (item) => {
+		const quote = item[0] === '"' || item[0] === "'" ? item[0] : "";
+		const itemValue = quote ? item.slice(1, -1) : item;
+		const option = secretOption;
+		secretOption = null;
+
+		if (itemValue === rules.placeholder) {
+			return item;
+		}
+		if ((option || secretKey) && !itemValue.startsWith("$")) {
+			keys.push({ key: option ?? key, reason: "key" });
+			return `${quote}${rules.placeholder}${quote}`;
+		}
+		if (
+			LONE_OPTION_REGEX.test(itemValue) &&
+			isSecretKey(getOptionName(itemValue), rules)
+		) {
+			secretOption = itemValue;
+			return item;
+		}
+
+		const inline = redactInline(itemValue, option ?? key, rules, valuePatterns);
+		keys.push(...inline.keys);
+		return `${quote}${inline.text}${quote}`;
+	});
+
+	return { text: `[${items}]`, keys };
+}
+
+/**
+ * Returns the placeholder when a single value is secret, e.g. the default of a variable,
+ * and the value itself otherwise.
+ */
+export function redactValue(
+	key: string,
+	value: string,
+	rules: RedactionRules,
+): string {
+	return value && getRedactionReason(key, value, rules)
+		? rules.placeholder
+		: value;
+}
+
+/**
+ * Replaces secret values of compose and env file content with the placeholder, line by line
+ * so comments and formatting are kept. Values are secret when their key matches a key
+ * pattern, or only their default when they are interpolated, e.g. `${DB_PASSWORD:-hunter2}`.
+ * Inside other values, flow sequences and lines, arguments of options matching a key pattern
+ * and parts matching a value pattern are masked, e.g. `command: --password=hunter2`.
+ */
+export function redactSecrets(
+	content: string,
+	rules: RedactionRules,
+): { content: string; redactions: Redaction[] } {
+	const redactions: Redaction[] = [];
+	const valuePatterns = rules.values.map(
+		(pattern) =>
+			new RegExp(pattern.source, `${pattern.flags.replace("g", "")}g`),
+	);
+
+	const lines = content.split("\n").map((line, index) => {
+		const match = line.match(KEY_VALUE_LINE_REGEX);
+		if (!match) {
+			const inline = redactInline(line, "value", rules, valuePatterns);
+			inline.keys.forEach(({ key, reason }) =>
+				redactions.push({ key, line: index + 1, reason }),
+			);
+			return inline.text;
+		}
+
+		const [, prefix, openingQuote, key, separator, rawValue] = match;
+		const { value, before, after } = splitValue(rawValue, openingQuote);
+		if (!value || value === rules.placeholder) {
+			return line;
+		}
+
+		if (!isSecretKey(key, rules) || NON_LITERAL_VALUE_REGEX.test(value)) {
+			const inline =
+				value.startsWith("[") && value.endsWith("]")
+					? redactFlowSequence(value, key, rules, valuePatterns)
+					: redactInline(value, key, rules, valuePatterns);
+			if (inline.keys.length === 0) {
+				return line;
+			}
+			inline.keys.forEach(({ key, reason }) =>
+				redactions.push({ key, line: index + 1, reason }),
+			);
+			return `${prefix}${key}${separator}${before}${inline.text}${after}`;
+		}
+
+		redactions.push({ key, line: index + 1, reason: "key" });
+		return `${prefix}${key}${separator}${before}${rules.placeholder}${after}`;
+	});
+
+	return { content: lines.join("\n"), redactions };
+}
+
+/**
+ * Puts the original secret values back into edited content, e.g. before pushing a note's
+ * compose block to the repository. Each line still holding the placeholder gets the value of
+ * the original line it was redacted from. Throws when such a line has no original, e.g. a
+ * placeholder typed by hand or a line redacted from several different values, so
+ * placeholders never end up in the repository.
+ */
+export function restoreSecrets(
+	content: string,
+	original: string,
+	rules: RedactionRules,
+): string {
+	const originalLines = original.split("\n");
+	const redactedLines = redactSecrets(original, rules).content.split("\n");
+	// Identical redacted lines with different original values are ambiguous and map to null
+	const originals = new Map<string, string | null>();
+	redactedLines.forEach((line, index) => {
+		const key = line.trimEnd();
+		if (line === originalLines[index]) {
+			return;
+		}
+		const existing = originals.get(key);
+		originals.set(
+			key,
+			existing === undefined || existing === originalLines[index]
+				? originalLines[index]
+				: null,
+		);
+	});
+
+	return content
+		.split("\n")
+		.map((line, index) => {
+			if (!line.includes(rules.placeholder)) {
+				return line;
+			}
+			const originalLine = originals.get(line.trimEnd());
+			if (originalLine === undefined || originalLine === null) {
+				throw new Error(
+					`Line ${index + 1} holds a redacted value that can not be restored`,
+				);
+			}
+			return originalLine;
+		})
+		.join("\n");
+}
@@ -0,0 +1,96 @@
+import { describe, expect, it } from "bun:test";
+import { renderTemplate, type TemplateContext } from "src/template";
+
+const context: TemplateContext = {
+	stackName: "web",
+	images: ["nginx:1.27", "redis:7"],
+	networks: [],
+	services: [
+		{ name: "app", image: "nginx:1.27", ports: ["8080:80"] },
+		{ name: "cache", image: "redis:7", ports: [] },
+	],
+	date: (format) => `date(${format ?? ""})`,
+};
+
+describe("renderTemplate", () => {
+	it("inserts values, nested values and function values", () => {
+		expect(
+			renderTemplate(
+				"# {{stackName}} {{ images }} {{services}} {{date:YYYY}}",
+				context,
+			),
+		).toEqual({
+			content: "# web nginx:1.27, redis:7 app, cache date(YYYY)",
+			unknownPlaceholders: [],
+			errors: [],
+		});
+	});
+
+	it("repeats loop content for every item", () => {
+		const { content } = renderTemplate(
+			"{{#each services}}{{@index}}. {{name}} ({{image}}){{#each ports}} {{this}}{{/each}}\n{{/each}}",
+			context,
+		);
+
+		expect(content).toBe("0. app (nginx:1.27) 8080:80\n1. cache (redis:7)\n");
+	});
+
+	it("renders the else branch of empty loops and falsy conditions", () => {
+		const { content } = renderTemplate(
+			"{{#each networks}}{{this}}{{else}}no networks{{/each}}, {{#if networks}}shared{{else}}private{{/if}}, {{#if images}}{{images}}{{/if}}",
+			context,
+		);
+
+		expect(content).toBe("no networks, private, nginx:1.27, redis:7");
+	});
+
+	it("keeps escaped and unknown placeholders", () => {
+		const { content, unknownPlaceholders } = renderTemplate(
+			"\\{{stackName}} {{title}} {{services.app}}",
+			context,
+		);
+
+		expect(content).toBe("{{stackName}} {{title}} {{services.app}}");
+		expect(unknownPlaceholders).toEqual(["title", "services.app"]);
+	});
+
+	it("does not process inserted values as templates", () => {
+		const { content } = renderTemplate("{{stackName}}", {
+			stackName: "{{#if x}}",
+		});
+
+		expect(content).toBe("{{#if x}}");
+	});
+
+	it("reports closing tags not matching the open block", () => {
+		const { content, errors } = renderTemplate(
+			"{{#each services}}\n{{name}}{{/if}}",
+			context,
+		);
+
+		expect(content).toBe("\napp\ncache");
+		expect(errors).toEqual([
+			"{{/if}} on line 2 does not close {{#each services}} of line 1",
+		]);
+	});
+
+	it("reports closing tags without open block", () => {
+		const { content, errors } = renderTemplate(
+			"{{stackName}}{{/each}}",
+			context,
+		);
+
+		expect(content).toBe("web{{/each}}");
+		expect(errors).toEqual(["{{/each}} on line 1 closes no block"]);
+	});
+
+	it("reports blocks never closed", () => {
+		const { content, errors } = renderTemplate(
+			"{{#if images}}\n{{#each services}}{{name}} {{/each}}",
+			context,
+		);
+
+		expect(content).toBe("\napp cache ");
+		expect(errors).toEqual(["{{#if images}} of line 1 is never closed"]);
+	});
+});
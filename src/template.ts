@@ -0,0 +1,266 @@
+/**
+ * Minimal template engine for note templates.
+ *
+ * - `{{name}}` inserts a value, `{{service.image}}` a nested value and `{{name:argument}}`
+ *   calls a function value with an argument, e.g. `{{date:YYYY-MM-DD}}`.
+ * - `{{#each list}}…{{/each}}` repeats its content for every item. Inside the loop, `{{this}}`
+ *   is the item, `{{@index}}` its position and fields of object items are available directly.
+ * - `{{#if name}}…{{else}}…{{/if}}` renders its content when the value is truthy, empty lists
+ *   being falsy.
+ * - Lists render as comma separated values and objects by their `name` field.
+ * - Values are inserted as is and never processed as templates themselves. A placeholder
+ *   preceded by a backslash, e.g. `\{{name}}`, is kept literally without the backslash.
+ *
+ * Unknown placeholders are kept in place and reported, so mistakes are visible. So are
+ * closing tags not matching the open block, e.g. `{{/if}}` closing `{{#each}}`, and blocks
+ * never closed.
+ */
+
+export type TemplateFunction = (argument?: string) => string;
+
+export type TemplateValue =
+	| string
+	| number
+	| boolean
+	| null
+	| undefined
+	| TemplateFunction
+	| TemplateValue[]
+	| { [key: string]: TemplateValue };
+
+export type TemplateContext = { [key: string]: TemplateValue };
+
+type BlockNode = {
+	type: "each" | "if";
+	name: string;
+	children: TemplateNode[];
+	elseChildren: TemplateNode[];
+};
+
+type TemplateNode =
+	| { type: "text"; text: string }
+	| { type: "value"; raw: string; name: string; argument?: string }
+	| BlockNode;
+
+/**
+ * A block being parsed, with its opening tag and line for error messages.
+ */
+type OpenBlock = {
+	node: BlockNode;
+	inElse: boolean;
+	tag: string;
+	line: number;
+};
+
+const TAG_REGEX = /(\\?)\{\{\s*([#/]?)([^{}]*?)\s*\}\}/g;
+
+function getLineNumber(template: string, index: number): number {
+	return template.slice(0, index).split("\n").length;
+}
+
+/**
+ * Parses a template into nodes. Block structure errors are collected in `errors` and the
+ * template is still parsed: a mismatched closing tag closes the open block anyway, and blocks
+ * left open end with the template.
+ */
+function parseTemplate(template: string, errors: string[]): TemplateNode[] {
+	const root: TemplateNode[] = [];
+	const stack: OpenBlock[] = [];
+	const current = () => {
+		const top = stack[stack.length - 1];
+		if (!top) {
+			return root;
+		}
+		return top.inElse ? top.node.elseChildren : top.node.children;
+	};
+
+	let lastIndex = 0;
+	let match: RegExpExecArray | null;
+	const regex = new RegExp(TAG_REGEX.source, "g");
+	while ((match = regex.exec(template)) !== null) {
+		const [raw, escape, marker, content] = match;
+		current().push({
+			type: "text",
+			text: template.slice(lastIndex, match.index),
+		});
+		lastIndex = match.index + raw.length;
+
+		if (escape) {
+			current().push({ type: "text", text: raw.slice(1) });
+			continue;
+		}
+
+		const [keyword, ...rest] = content.split(/\s+/);
+		if (marker === "#" && (keyword === "each" || keyword === "if")) {
+			const node: BlockNode = {
+				type: keyword,
+				name: rest.join(" "),
+				children: [],
+				elseChildren: [],
+			};
+			current().push(node);
+			stack.push({
+				node,
+				inElse: false,
+				tag: raw,
+				line: getLineNumber(template, match.index),
+			});
+		} else if (marker === "/" && stack.length > 0) {
+			const open = stack.pop() as OpenBlock;
+			if (keyword !== open.node.type) {
+				errors.push(
+					`${raw} on line ${getLineNumber(template, match.index)} does not close ${open.tag} of line ${open.line}`,
+				);
+			}
+		} else if (marker === "/") {
+			errors.push(
+				`${raw} on line ${getLineNumber(template, match.index)} closes no block`,
+			);
+			current().push({ type: "text", text: raw });
+		} else if (!marker && content === "else" && stack.length > 0) {
+			stack[stack.length - 1].inElse = true;
+		} else if (!marker) {
+			const separatorIndex = content.indexOf(":");
+			current().push(
+				separatorIndex === -1
+					? { type: "value", raw, name: content }
+					: {
+							type: "value",
+							raw,
+							name: content.slice(0, separatorIndex),
+							argument: content.slice(separatorIndex + 1),
+						},
+			);
+		} else {
+			current().push({ type: "text", text: raw });
+		}
+	}
+	current().push({ type: "text", text: template.slice(lastIndex) });
+	for (const open of stack) {
+		errors.push(`${open.tag} of line ${open.line} is never closed`);
+	}
+
+	return root;
+}
+
+function isRecord(
+	value: TemplateValue,
+): value is { [key: string]: TemplateValue } {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Looks a dotted name up in the scopes, innermost first. Returns undefined when unknown.
+ */
+function lookup(
+	scopes: TemplateContext[],
+	name: string,
+): { value: TemplateValue } | undefined {
+	const [first, ...path] = name.split(".");
+	for (let i = scopes.length - 1; i >= 0; i--) {
+		if (!Object.prototype.hasOwnProperty.call(scopes[i], first)) {
+			continue;
+		}
+
+		let value = scopes[i][first];
+		for (const key of path) {
+			if (!isRecord(value) || !(key in value)) {
+				return undefined;
+			}
+			value = value[key];
+		}
+		return { value };
+	}
+	return undefined;
+}
+
+function stringify(value: TemplateValue): string {
+	if (value === null || value === undefined) {
+		return "";
+	}
+	if (typeof value === "function") {
+		return value();
+	}
+	if (Array.isArray(value)) {
+		return value.map(stringify).join(", ");
+	}
+	if (isRecord(value)) {
+		return stringify(value.name);
+	}
+	return String(value);
+}
+
+function isTruthy(value: TemplateValue): boolean {
+	return Array.isArray(value) ? value.length > 0 : !!value;
+}
+
+function renderNodes(
+	nodes: TemplateNode[],
+	scopes: TemplateContext[],
+	unknown: Set<string>,
+): string {
+	return nodes
+		.map((node) => {
+			if (node.type === "text") {
+				return node.text;
+			}
+
+			const found = lookup(scopes, node.name);
+			if (!found) {
+				unknown.add(node.name);
+			}
+			const value = found?.value;
+
+			if (node.type === "value") {
+				if (!found) {
+					return node.raw;
+				}
+				return typeof value === "function"
+					? value(node.argument)
+					: stringify(value);
+			}
+
+			if (node.type === "if") {
+				return renderNodes(
+					isTruthy(value) ? node.children : node.elseChildren,
+					scopes,
+					unknown,
+				);
+			}
+
+			if (!Array.isArray(value) || value.length === 0) {
+				return renderNodes(node.elseChildren, scopes, unknown);
+			}
+			return value
+				.map((item, index) =>
+					renderNodes(
+						node.children,
+						[
+							...scopes,
+							{ ...(isRecord(item) ? item : {}), this: item, "@index": index },
+						],
+						unknown,
+					),
+				)
+				.join("");
+		})
+		.join("");
+}
+
+/**
+ * Renders a template with the given values. Returns the rendered text, the names of
+ * placeholders without value and the errors in the block structure of the template.
+ */
+export function renderTemplate(
+	template: string,
+	context: TemplateContext,
+): { content: string; unknownPlaceholders: string[]; errors: string[] } {
+	const unknown = new Set<string>();
+	const errors: string[] = [];
+	const content = renderNodes(
+		parseTemplate(template, errors),
+		[context],
+		unknown,
+	);
+	return { content, unknownPlaceholders: Array.from(unknown), errors };
+}
@@ -0,0 +1,83 @@
+import { createHash } from "crypto";
+
+/**
+ * Maps over items with at most `limit` promises running at the same time.
+ * Results are returned in the same order as the input items.
+ */
+export async function mapWithConcurrency<T, R>(
+	items: T[],
+	limit: number,
+	fn: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+	const results: R[] = new Array(items.length);
+	let nextIndex = 0;
+
+	const worker = async () => {
+		while (nextIndex < items.length) {
+			const index = nextIndex++;
+			results[index] = await fn(items[index], index);
+		}
+	};
+
+	const workers = Array.from({ length: Math.min(limit, items.length) }, () =>
+		worker(),
+	);
+	await Promise.all(workers);
+
+	return results;
+}
+
+/**
+ * Computes the SHA git would give to a blob with this content, so local files can be
+ * compared with files fetched from a Git provider.
+ */
+export function getGitBlobSha(content: string): string {
+	const body = Buffer.from(content, "utf8");
+	return createHash("sha1")
+		.update(`blob ${body.length}\0`)
+		.update(body)
+		.digest("hex");
+}
+
+/**
+ * Returns a hex SHA-1 hash of a string, used to detect content changes.
+ */
+export function hashString(value: string): string {
+	return createHash("sha1").update(value, "utf8").digest("hex");
+}
+
+/**
+ * Converts a glob pattern to a regular expression matching whole paths.
+ * Supports `**`, `*`, `?` and `{a,b}` alternatives.
+ */
+export function globToRegExp(pattern: string): RegExp {
+	let source = "";
+	let braceDepth = 0;
+	for (let i = 0; i < pattern.length; i++) {
+		const char = pattern[i];
+		if (char === "*" && pattern[i + 1] === "*") {
+			if (pattern[i + 2] === "/") {
+				source += "(?:.*/)?";
+				i += 2;
+			} else {
+				source += ".*";
+				i += 1;
+			}
+		} else if (char === "*") {
+			source += "[^/]*";
+		} else if (char === "?") {
+			source += "[^/]";
+		} else if (char === "{") {
+			source += "(?:";
+			braceDepth++;
+		} else if (char === "}" && braceDepth > 0) {
+			source += ")";
+			braceDepth--;
+		} else if (char === "," && braceDepth > 0) {
+			source += "|";
+		} else {
+			source += char.replace(/[.+^$()|[\]\\{}]/g, "\\$&");
+		}
+	}
+	return new RegExp(`^${source}$`);
+}
@@ -0,0 +1,224 @@
+import { ItemView, type WorkspaceLeaf } from "obsidian";
+import moment from "moment";
+import type CommandManager from "src/command";
+import type { DockerStackFile } from "src/github";
+import type DockerToObsiPlugin from "src/main";
+import ObsidianService, {
+	type StackStatus,
+	type StackStatusEntry,
+} from "src/obsidian";
+
+export const DASHBOARD_VIEW_TYPE = "docker-to-obsi-dashboard";
+
+const STATUS_LABELS: Record<StackStatus, string> = {
+	synced: "In sync",
+	outdated: "Outdated",
+	missing: "No note",
+	orphaned: "Orphaned note",
+	noComposeBlock: "No compose block",
+};
+
+const STATUS_COLORS: Record<StackStatus, string> = {
+	synced: "var(--text-success)",
+	outdated: "var(--text-warning)",
+	missing: "var(--text-muted)",
+	orphaned: "var(--text-error)",
+	noComposeBlock: "var(--text-error)",
+};
+
+/**
+ * Workspace view listing every discovered stack with the status of its note. It shows the
+ * stacks of the last fetch, and is refreshed by the commands after each sync run.
+ */
+export default class StackDashboardView extends ItemView {
+	private readonly plugin: DockerToObsiPlugin;
+	private readonly commandManager: CommandManager;
+	private readonly obsidianService: ObsidianService;
+	private stacks: DockerStackFile[] | null = null;
+	private isLoading = false;
+	/** Incremented on every render, so a slower earlier render does not overwrite a newer one. */
+	private renderId = 0;
+
+	constructor(
+		leaf: WorkspaceLeaf,
+		plugin: DockerToObsiPlugin,
+		commandManager: CommandManager,
+	) {
+		super(leaf);
+		this.plugin = plugin;
+		this.commandManager = commandManager;
+		this.obsidianService = new ObsidianService(plugin);
+	}
+
+	getViewType(): string {
+		return DASHBOARD_VIEW_TYPE;
+	}
+
+	getDisplayText(): string {
+		return "Docker stacks";
+	}
+
+	getIcon(): string {
+		return "container";
+	}
+
+	async onOpen() {
+		await this.render();
+	}
+
+	async onClose() {
+		this.contentEl.empty();
+	}
+
+	/**
+	 * Shows the statuses of freshly fetched stacks, or recomputes the statuses of the shown
+	 * stacks after their notes changed.
+	 */
+	async refreshStatuses(stacks?: DockerStackFile[]) {
+		if (stacks) {
+			this.stacks = stacks;
+		}
+		await this.render();
+	}
+
+	private async render() {
+		const renderId = ++this.renderId;
+		const entries = this.stacks
+			? await this.obsidianService.getStackStatuses(this.stacks)
+			: [];
+		if (renderId !== this.renderId) {
+			return;
+		}
+
+		const { contentEl } = this;
+		contentEl.empty();
+
+		const header = contentEl.createDiv();
+		header.style.display = "flex";
+		header.style.alignItems = "center";
+		header.style.justifyContent = "space-between";
+		header.style.marginBottom = "1rem";
+
+		const title = header.createDiv();
+		title.createEl("h4", { text: "Docker stacks" }).style.margin = "0";
+		const { lastSyncTime } = this.plugin.cache;
+		const syncInfo = title.createDiv({
+			text: lastSyncTime
+				? `Last sync ${moment(lastSyncTime).fromNow()}`
+				: "Never synced",
+		});
+		syncInfo.style.fontSize = "0.8em";
+		syncInfo.style.color = "var(--text-muted)";
+
+		const refreshBtn = header.createEl("button", { text: "Refresh" });
+		refreshBtn.disabled = this.isLoading;
+		refreshBtn.onclick = () => this.refresh();
+
+		if (this.isLoading) {
+			contentEl.createEl("p", { text: "Fetching Docker stacks..." });
+			return;
+		}
+		if (!this.stacks) {
+			contentEl.createEl("p", {
+				text: "Refresh to fetch the Docker stacks of your sources.",
+			});
+			return;
+		}
+
+		if (entries.length === 0) {
+			contentEl.createEl("p", { text: "No Docker stacks found." });
+			return;
+		}
+
+		const counts = contentEl.createDiv();
+		counts.style.fontSize = "0.8em";
+		counts.style.color = "var(--text-muted)";
+		counts.style.marginBottom = "0.5rem";
+		counts.textContent = (Object.keys(STATUS_LABELS) as StackStatus[])
+			.map((status) => ({
+				status,
+				count: entries.filter((entry) => entry.status === status).length,
+			}))
+			.filter(({ count }) => count > 0)
+			.map(
+				({ status, count }) =>
+					`${count} ${STATUS_LABELS[status].toLowerCase()}`,
+			)
+			.join(" · ");
+
+		const list = contentEl.createDiv("docker-to-obsi-dashboard-list");
+		for (const entry of entries) {
+			this.renderEntry(list, entry);
+		}
+	}
+
+	private renderEntry(containerEl: HTMLElement, entry: StackStatusEntry) {
+		const row = containerEl.createDiv("docker-to-obsi-dashboard-item");
+		row.style.display = "flex";
+		row.style.alignItems = "center";
+		row.style.gap = "0.5rem";
+		row.style.padding = "0.25rem 0";
+		row.style.borderBottom = "1px solid var(--background-modifier-border)";
+
+		const info = row.createDiv();
+		info.style.flexGrow = "1";
+		info.style.minWidth = "0";
+
+		const name = info.createEl("strong", { text: entry.name });
+		if (entry.file) {
+			const file = entry.file;
+			name.style.cursor = "pointer";
+			name.setAttribute("aria-label", file.path);
+			name.onclick = () => this.app.workspace.getLeaf().openFile(file);
+		}
+
+		const status = info.createDiv({ text: STATUS_LABELS[entry.status] });
+		status.style.fontSize = "0.8em";
+		status.style.color = STATUS_COLORS[entry.status];
+
+		const { stack, file } = entry;
+		if (stack && (entry.status === "outdated" || entry.status === "synced")) {
+			this.addRowAction(row, "Sync", async () => {
+				await this.commandManager.syncStackCommand(stack);
+			});
+		}
+		if (stack && entry.status === "missing") {
+			this.addRowAction(row, "Create", async () => {
+				await this.commandManager.createStackNoteCommand(stack);
+			});
+		}
+		if (file) {
+			this.addRowAction(row, "Open", async () => {
+				await this.app.workspace.getLeaf().openFile(file);
+			});
+		}
+	}
+
+	private addRowAction(
+		containerEl: HTMLElement,
+		text: string,
+		onClick: () => Promise<void>,
+	) {
+		const button = containerEl.createEl("button", { text });
+		button.onclick = async () => {
+			button.disabled = true;
+			try {
+				await onClick();
+			} finally {
+				button.disabled = false;
+			}
+			await this.render();
+		};
+	}
+
+	private async refresh() {
+		this.isLoading = true;
+		await this.render();
+		try {
+			await this.commandManager.refreshDashboardCommand();
+		} finally {
+			this.isLoading = false;
+			await this.render();
+		}
+	}
+}
@@ -0,0 +1,90 @@
+import { createServer, type IncomingHttpHeaders, type Server } from "http";
+import type { AddressInfo } from "net";
+
+export type RecordedRequest = {
+	method: string;
+	/** Path and query string of the request, as sent. */
+	path: string;
+	headers: IncomingHttpHeaders;
+	body: string;
+};
+
+export type MockResponse = {
+	status?: number;
+	headers?: Record<string, string>;
+	/** Strings are sent as is, anything else as JSON. */
+	body?: unknown;
+};
+
+export type MockHandler = (request: RecordedRequest) => MockResponse;
+
+/**
+ * Local HTTP server standing in for the API of a provider in tests. Requests are recorded
+ * and answered by the handler of the running test.
+ */
+export default class MockApiServer {
+	readonly requests: RecordedRequest[] = [];
+	private handler: MockHandler = () => ({ status: 404 });
+	private server: Server | null = null;
+	private port = 0;
+
+	/** Base URL of the server, to be used as base URL of sources. */
+	get url(): string {
+		return `http://127.0.0.1:${this.port}`;
+	}
+
+	async start() {
+		const server = createServer((req, res) => {
+			let body = "";
+			req.setEncoding("utf8");
+			req.on("data", (chunk: string) => (body += chunk));
+			req.on("end", () => {
+				const request: RecordedRequest = {
+					method: req.method ?? "GET",
+					path: req.url ?? "/",
+					headers: req.headers,
+					body,
+				};
+				this.requests.push(request);
+
+				const response = this.handler(request);
+				const isText = typeof response.body === "string";
+				res.writeHead(response.status ?? 200, {
+					"Content-Type": isText ? "text/plain" : "application/json",
+					// Keep-alive connections would hold the server open on stop
+					Connection: "close",
+					...response.headers,
+				});
+				res.end(
+					response.body === undefined
+						? undefined
+						: isText
+							? (response.body as string)
+							: JSON.stringify(response.body),
+				);
+			});
+		});
+
+		await new Promise<void>((resolve) =>
+			server.listen(0, "127.0.0.1", resolve),
+		);
+		this.server = server;
+		this.port = (server.address() as AddressInfo).port;
+	}
+
+	async stop() {
+		const server = this.server;
+		this.server = null;
+		if (server) {
+			await new Promise((resolve) => server.close(resolve));
+		}
+	}
+
+	/**
+	 * Forgets the recorded requests and answers the next ones with the handler.
+	 */
+	reset(handler: MockHandler) {
+		this.requests.length = 0;
+		this.handler = handler;
+	}
+}
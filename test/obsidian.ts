@@ -0,0 +1,13 @@
+import { parse, stringify } from "yaml";
+
+/**
+ * Stand-in for the `obsidian` module, which only exists inside the app. Every test file
+ * mocks it with this same module, as module mocks are shared by the test run.
+ */
+export function createObsidianModule() {
+	return {
+		TFile: class {},
+		parseYaml: parse,
+		stringifyYaml: stringify,
+	};
+}